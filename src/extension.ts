@@ -1,10 +1,28 @@
 "use strict";
 
 import * as vscode from "vscode";
+import { VSCodeHost } from "./host";
 import { Vim } from "./vim/vim";
+import { JumpSettings } from "./vim/jump";
+import { KeyBinding, MappingSettings } from "./vim/mappings";
+
+function settings(): MappingSettings & JumpSettings {
+    const configuration = vscode.workspace.getConfiguration("vimish");
+    return {
+        normalModeKeyBindings: configuration.get<KeyBinding[]>("normalModeKeyBindings", []),
+        insertModeKeyBindings: configuration.get<KeyBinding[]>("insertModeKeyBindings", []),
+        visualModeKeyBindings: configuration.get<KeyBinding[]>("visualModeKeyBindings", []),
+        operatorPendingKeyBindings: configuration.get<KeyBinding[]>("operatorPendingKeyBindings", []),
+        leader: configuration.get<string>("leader", "\\"),
+        timeoutlen: configuration.get<number>("timeoutlen", 1000),
+        jumpLabels: configuration.get<string>("jumpLabels", "abcdefghijklmnopqrstuvwxyz"),
+    };
+}
 
 export function activate(context: vscode.ExtensionContext) {
-    const vim = new Vim();
+    const vim = new Vim(new VSCodeHost());
+    vim.configure(settings());
+    context.subscriptions.push(vscode.workspace.onDidChangeConfiguration(() => vim.configure(settings())));
 
     let disposable = vscode.commands.registerCommand("type", args => {
         vim.key(args.text);
@@ -16,6 +34,31 @@ export function activate(context: vscode.ExtensionContext) {
     });
     context.subscriptions.push(disposable);
 
+    disposable = vscode.commands.registerCommand("extension.vimCtrlV", () => {
+        vim.key("<c-v>");
+    });
+    context.subscriptions.push(disposable);
+
+    disposable = vscode.commands.registerCommand("extension.vimCtrlR", () => {
+        vim.key("<c-r>");
+    });
+    context.subscriptions.push(disposable);
+
+    disposable = vscode.commands.registerCommand("extension.vimCtrlO", () => {
+        vim.key("<c-o>");
+    });
+    context.subscriptions.push(disposable);
+
+    disposable = vscode.commands.registerCommand("extension.vimCtrlI", () => {
+        vim.key("\t");
+    });
+    context.subscriptions.push(disposable);
+
+    disposable = vscode.commands.registerCommand("extension.vimBackspace", () => {
+        vim.key("<bs>");
+    });
+    context.subscriptions.push(disposable);
+
     disposable = vscode.commands.registerCommand("extension.vimLeft", () => {
         vim.key("<left>");
     });
@@ -36,18 +79,6 @@ export function activate(context: vscode.ExtensionContext) {
     });
     context.subscriptions.push(disposable);
 
-    vscode.window.onDidChangeTextEditorSelection(e => {
-        vim.updateSelection(e.selections);
-    });
-
-    vscode.workspace.onDidChangeTextDocument(e => {
-        vim.documentChanged(e);
-    });
-
-    vscode.window.onDidChangeActiveTextEditor(e => {
-        vim.updateUI();
-    });
-
     vim.updateUI();
 }
 
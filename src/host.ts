@@ -0,0 +1,244 @@
+import * as vscode from "vscode";
+import * as editor from "./vim/editor";
+
+// Adapts the VS Code API to the editor surface the Vim engine runs against.
+
+function fromPosition(position: vscode.Position): editor.Position {
+    return new editor.Position(position.line, position.character);
+}
+
+function toPosition(position: editor.Position): vscode.Position {
+    return new vscode.Position(position.line, position.character);
+}
+
+function fromRange(range: vscode.Range): editor.Range {
+    return new editor.Range(fromPosition(range.start), fromPosition(range.end));
+}
+
+function toRange(range: editor.Range): vscode.Range {
+    return new vscode.Range(toPosition(range.start), toPosition(range.end));
+}
+
+function fromSelection(selection: vscode.Selection): editor.Selection {
+    return new editor.Selection(fromPosition(selection.anchor), fromPosition(selection.active));
+}
+
+function toSelection(selection: editor.Selection): vscode.Selection {
+    return new vscode.Selection(toPosition(selection.anchor), toPosition(selection.active));
+}
+
+function toColor(color: string | editor.ThemeColor): string | vscode.ThemeColor {
+    return color instanceof editor.ThemeColor ? new vscode.ThemeColor(color.id) : color;
+}
+
+function toRenderOptions(options: editor.DecorationOptions): vscode.DecorationRenderOptions {
+    const before = options.before;
+    return {
+        color: toColor(options.color),
+        backgroundColor: toColor(options.backgroundColor),
+        border: options.border,
+        before: before && {
+            contentText: before.contentText,
+            color: toColor(before.color),
+            backgroundColor: toColor(before.backgroundColor),
+            textDecoration: before.textDecoration,
+        },
+    };
+}
+
+function toPromise<T>(thenable: Thenable<T>): Promise<T> {
+    return new Promise<T>((resolve, reject) => thenable.then(resolve, reject));
+}
+
+class VSCodeDocument implements editor.TextDocument {
+    private document: vscode.TextDocument;
+
+    public constructor(document: vscode.TextDocument) {
+        this.document = document;
+    }
+
+    public get uri(): string {
+        return this.document.uri.toString();
+    }
+
+    public get lineCount(): number {
+        return this.document.lineCount;
+    }
+
+    public getText(range?: editor.Range): string {
+        return range ? this.document.getText(toRange(range)) : this.document.getText();
+    }
+
+    public lineAt(lineOrPosition: number | editor.Position): editor.TextLine {
+        const line = typeof lineOrPosition === "number" ?
+            this.document.lineAt(lineOrPosition as number) :
+            this.document.lineAt(toPosition(lineOrPosition as editor.Position));
+        return {
+            lineNumber: line.lineNumber,
+            text: line.text,
+            range: fromRange(line.range),
+            rangeIncludingLineBreak: fromRange(line.rangeIncludingLineBreak),
+            firstNonWhitespaceCharacterIndex: line.firstNonWhitespaceCharacterIndex,
+            isEmptyOrWhitespace: line.isEmptyOrWhitespace,
+        };
+    }
+
+    public offsetAt(position: editor.Position): number {
+        return this.document.offsetAt(toPosition(position));
+    }
+
+    public positionAt(offset: number): editor.Position {
+        return fromPosition(this.document.positionAt(offset));
+    }
+
+    public validatePosition(position: editor.Position): editor.Position {
+        return fromPosition(this.document.validatePosition(toPosition(position)));
+    }
+
+    public validateRange(range: editor.Range): editor.Range {
+        return fromRange(this.document.validateRange(toRange(range)));
+    }
+}
+
+class VSCodeEditor implements editor.TextEditor {
+    public document: editor.TextDocument;
+    private editor: vscode.TextEditor;
+
+    public constructor(textEditor: vscode.TextEditor) {
+        this.editor = textEditor;
+        this.document = new VSCodeDocument(textEditor.document);
+    }
+
+    public get selection(): editor.Selection {
+        return fromSelection(this.editor.selection);
+    }
+
+    public set selection(selection: editor.Selection) {
+        this.editor.selection = toSelection(selection);
+    }
+
+    public get selections(): editor.Selection[] {
+        return this.editor.selections.map(fromSelection);
+    }
+
+    public set selections(selections: editor.Selection[]) {
+        this.editor.selections = selections.map(toSelection);
+    }
+
+    public get tabSize(): number {
+        return Number(this.editor.options.tabSize) || 4;
+    }
+
+    public edit(callback: (editBuilder: editor.TextEditorEdit) => void): Promise<boolean> {
+        return toPromise(this.editor.edit(e => callback({
+            insert: (location, value) => e.insert(toPosition(location), value),
+            delete: location => e.delete(toRange(location)),
+            replace: (location, value) => e.replace(toRange(location), value),
+        })));
+    }
+
+    public get visibleRanges(): editor.Range[] {
+        return this.editor.visibleRanges.map(fromRange);
+    }
+
+    public setDecorations(decorationType: editor.DecorationType, ranges: editor.Range[], labels?: string[]) {
+        const type = decorationType as vscode.TextEditorDecorationType;
+        if (labels) {
+            this.editor.setDecorations(type, ranges.map((range, i) => ({
+                range: toRange(range),
+                renderOptions: { before: { contentText: labels[i] } },
+            })));
+        } else {
+            this.editor.setDecorations(type, ranges.map(toRange));
+        }
+    }
+
+    public revealRange(range: editor.Range) {
+        this.editor.revealRange(toRange(range));
+    }
+
+    public setCursorStyle(style: editor.CursorStyle) {
+        const cursorStyle = {
+            [editor.CursorStyle.Line]: vscode.TextEditorCursorStyle.Line,
+            [editor.CursorStyle.Block]: vscode.TextEditorCursorStyle.Block,
+            [editor.CursorStyle.Underline]: vscode.TextEditorCursorStyle.Underline,
+        }[style];
+        this.editor.options = { cursorStyle };
+    }
+}
+
+export class VSCodeHost implements editor.EditorHost {
+    private statusBarItems: { [item: number]: vscode.StatusBarItem };
+    // The context keys as they were last set
+    private contexts: { [key: string]: boolean };
+    private outputChannel: vscode.OutputChannel;
+
+    public constructor() {
+        this.statusBarItems = {};
+        this.contexts = {};
+        this.outputChannel = null;
+    }
+
+    public get activeTextEditor(): editor.TextEditor {
+        const active = vscode.window.activeTextEditor;
+        return active ? new VSCodeEditor(active) : null;
+    }
+
+    public createDecorationType(options: editor.DecorationOptions): editor.DecorationType {
+        return vscode.window.createTextEditorDecorationType(toRenderOptions(options));
+    }
+
+    public setStatusText(item: editor.StatusItem, text: string) {
+        if (!this.statusBarItems[item])
+            this.statusBarItems[item] = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left);
+        this.statusBarItems[item].text = text;
+        this.statusBarItems[item].show();
+    }
+
+    public setContext(key: string, value: boolean) {
+        if (this.contexts[key] === value)
+            return;
+        this.contexts[key] = value;
+        vscode.commands.executeCommand("setContext", key, value);
+    }
+
+    public executeCommand(command: string, ...rest: any[]): Promise<any> {
+        return toPromise(vscode.commands.executeCommand(command, ...rest));
+    }
+
+    public readClipboard(): Promise<string> {
+        return toPromise(vscode.env.clipboard.readText());
+    }
+
+    public writeClipboard(text: string): Promise<void> {
+        return toPromise(vscode.env.clipboard.writeText(text));
+    }
+
+    public showOutput(lines: string[]) {
+        if (!this.outputChannel)
+            this.outputChannel = vscode.window.createOutputChannel("Vimish");
+        this.outputChannel.clear();
+        lines.forEach(line => this.outputChannel.appendLine(line));
+        this.outputChannel.show(true);
+    }
+
+    public showDocument(uri: string): Promise<editor.TextEditor> {
+        const shown = vscode.workspace.openTextDocument(vscode.Uri.parse(uri)).then(document => vscode.window.showTextDocument(document));
+        return toPromise(shown).then(textEditor => new VSCodeEditor(textEditor), () => null);
+    }
+
+    public onDidChangeTextDocument(listener: (e: editor.TextDocumentChangeEvent) => void): editor.Disposable {
+        return vscode.workspace.onDidChangeTextDocument(e => listener({
+            document: new VSCodeDocument(e.document),
+            contentChanges: e.contentChanges.map(c => ({ range: fromRange(c.range), rangeLength: c.rangeLength, text: c.text })),
+        }));
+    }
+
+    public onDidChangeSelections(listener: (selections: editor.Selection[]) => void): editor.Disposable {
+        return vscode.window.onDidChangeTextEditorSelection(e => listener(e.selections.map(fromSelection)));
+    }
+
+    public onDidChangeActiveTextEditor(listener: (textEditor: editor.TextEditor) => void): editor.Disposable {
+        return vscode.window.onDidChangeActiveTextEditor(e => listener(e ? new VSCodeEditor(e) : null));
+    }
+}
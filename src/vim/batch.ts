@@ -0,0 +1,208 @@
+import { DecorationOptions, DecorationType, EditorHost, Position, Range, StatusItem, TextDocumentChangeEvent, TextEditor } from "./editor";
+import { MemoryHost } from "./memory";
+import { TextChange } from "./undo";
+
+// The commands a copy of the document runs the way the editor does. The editor runs everything else.
+const copiedCommands = [
+    "default:type", "cursorLeft", "cursorRight", "cursorUp", "cursorDown", "cursorHome", "deleteLeft",
+    "editor.action.insertLineAfter", "editor.action.insertLineBefore",
+];
+
+// The smallest replacement that turns before into after: the text between start and end (offsets into before) is
+// replaced with text.
+export function findDifference(before: string, after: string): { start: number, end: number, text: string } {
+    let prefix = 0;
+    while (prefix < before.length && prefix < after.length && before[prefix] === after[prefix])
+        prefix++;
+    let suffix = 0;
+    while (suffix < before.length - prefix && suffix < after.length - prefix &&
+           before[before.length - suffix - 1] === after[after.length - suffix - 1])
+        suffix++;
+    return { start: prefix, end: before.length - suffix, text: after.substring(prefix, after.length - suffix) };
+}
+
+// Adds a change to the changes made so far, which are apart and in order, each as the text between two offsets of the
+// text before any of them and what replaces it. The change is between two offsets of the text as they left it. The
+// changes it overlaps or touches become one with it.
+export function addChange(changes: TextChange[], change: TextChange): TextChange[] {
+    const before: TextChange[] = [];
+    const touched: TextChange[] = [];
+    const after: TextChange[] = [];
+    // How much longer the changes before the one looked at made the text, before the change and up to its end
+    let shiftBefore = 0;
+    let shiftAfter = 0;
+    for (const c of changes) {
+        const start = c.start + shiftAfter;
+        if (start + c.text.length < change.start) {
+            before.push(c);
+            shiftBefore = shiftAfter += c.text.length - (c.end - c.start);
+        } else if (start > change.end) {
+            after.push(c);
+        } else {
+            touched.push(c);
+            shiftAfter += c.text.length - (c.end - c.start);
+        }
+    }
+
+    // What is left of the changes at either end of the change goes with it
+    let start = change.start - shiftBefore;
+    let end = change.end - shiftAfter;
+    let text = change.text;
+    const first = touched[0];
+    if (first && first.start + shiftBefore <= change.start) {
+        start = first.start;
+        text = first.text.substring(0, change.start - (first.start + shiftBefore)) + text;
+    }
+    const last = touched[touched.length - 1];
+    const lastStart = last ? last.start + shiftAfter - (last.text.length - (last.end - last.start)) : 0;
+    if (last && lastStart + last.text.length >= change.end) {
+        end = last.end;
+        text += last.text.substring(change.end - lastStart);
+    }
+    return before.concat({ start, end, text }, after);
+}
+
+// The offset of a position in text.
+function offsetAt(text: string, position: Position): number {
+    let offset = 0;
+    for (let line = 0; line < position.line; line++) {
+        offset = text.indexOf("\n", offset) + 1;
+    }
+    return offset + position.character;
+}
+
+// An editor host for running many commands in a row, such as the keys of a macro. The commands edit a copy of the
+// active document, and the result is handed to the editor as one edit when flush is called, so no command has to
+// wait on the editor. The edit has a change for each place the commands changed, so that what the editor keeps on
+// the text in between stays where it is. A command the copy cannot run is run by the editor, after the edits so far
+// are handed to it.
+export class BatchHost extends MemoryHost {
+    // Set when a command the editor ran left another editor active, after which nothing more can be done
+    public detached: boolean;
+    private target: EditorHost;
+    private targetEditor: TextEditor;
+    // The editor's text the last time the copy was in step with it
+    private targetText: string;
+    // The changes made to the copy since then, as offsets into that text, and the copy's text as they left it
+    private changes: TextChange[];
+    private copyText: string;
+
+    public constructor(target: EditorHost) {
+        super();
+        this.target = target;
+        this.targetEditor = target.activeTextEditor;
+        this.targetText = this.targetEditor.document.getText();
+        this.detached = false;
+        // A long macro would otherwise keep a copy of the document for every edit it makes
+        this.undoLimit = 100;
+        const editor = this.open(this.targetText, this.targetEditor.document.uri);
+        editor.selections = this.targetEditor.selections;
+        editor.tabSize = this.targetEditor.tabSize;
+        editor.visibleRanges = this.targetEditor.visibleRanges;
+        this.changes = [];
+        this.copyText = this.targetText;
+        this.onDidChangeTextDocument(e => this.copyChanged(e));
+    }
+
+    public createDecorationType(options: DecorationOptions): DecorationType {
+        return this.target.createDecorationType(options);
+    }
+
+    public setStatusText(item: StatusItem, text: string) {
+        this.target.setStatusText(item, text);
+    }
+
+    public setContext(key: string, value: boolean) {
+        this.target.setContext(key, value);
+    }
+
+    public readClipboard(): Promise<string> {
+        return this.target.readClipboard();
+    }
+
+    public writeClipboard(text: string): Promise<void> {
+        return this.target.writeClipboard(text);
+    }
+
+    public showOutput(lines: string[]) {
+        this.target.showOutput(lines);
+    }
+
+    // Another document is shown by the editor, after which the copy is no longer the active document.
+    public async showDocument(uri: string): Promise<TextEditor> {
+        if (uri === this.activeTextEditor.document.uri)
+            return this.activeTextEditor;
+        if (this.detached)
+            return null;
+        await this.flush();
+        this.detached = true;
+        return this.target.showDocument(uri);
+    }
+
+    public executeCommand(command: string, ...rest: any[]): Promise<any> {
+        const editor = this.activeTextEditor;
+        if (copiedCommands.indexOf(command) !== -1)
+            return super.executeCommand(command, ...rest);
+        // What was done in the batch is undone in the copy, anything before it by the editor
+        if ((command === "undo" && editor.undo()) || (command === "redo" && editor.redo()))
+            return Promise.resolve();
+        return this.runInEditor(command, rest);
+    }
+
+    // Hands the edits made to the copy to the editor as one edit, along with the cursors.
+    public async flush() {
+        if (this.detached)
+            return;
+        const editor = this.activeTextEditor;
+        if (this.changes.length > 0) {
+            // Only the part of each change that differs is replaced
+            const changes = this.changes.map(c => {
+                const difference = findDifference(this.targetText.substring(c.start, c.end), c.text);
+                return { start: c.start + difference.start, end: c.start + difference.end, text: difference.text };
+            }).filter(c => c.start !== c.end || c.text.length > 0);
+            const document = this.targetEditor.document;
+            if (changes.length > 0) {
+                await this.targetEditor.edit(e => changes.forEach(c =>
+                    e.replace(new Range(document.positionAt(c.start), document.positionAt(c.end)), c.text)));
+            }
+            this.changes = [];
+            this.targetText = editor.document.getText();
+        }
+        this.targetEditor.selections = editor.selections;
+    }
+
+    private async runInEditor(command: string, args: any[]) {
+        if (this.detached)
+            return;
+        await this.flush();
+        const result = await this.target.executeCommand(command, ...args);
+        const active = this.target.activeTextEditor;
+        if (!active || active.document.uri !== this.targetEditor.document.uri) {
+            this.detached = true;
+            return result;
+        }
+
+        // The copy takes on what the command did, as an edit of its own so that marks follow it
+        this.targetEditor = active;
+        const editor = this.activeTextEditor;
+        const text = active.document.getText();
+        if (text !== this.targetText) {
+            editor.applyEdits([findDifference(editor.document.getText(), text)]);
+            // The editor already has the edit
+            this.changes = [];
+            this.targetText = text;
+        }
+        editor.selections = active.selections;
+        return result;
+    }
+
+    private copyChanged(e: TextDocumentChangeEvent) {
+        // The changes of one edit are each valid against the text before any of them, since the later ones in the
+        // text come first
+        for (const change of e.contentChanges) {
+            const start = offsetAt(this.copyText, change.range.start);
+            this.changes = addChange(this.changes, { start, end: start + change.rangeLength, text: change.text });
+        }
+        this.copyText = e.document.getText();
+    }
+}
@@ -0,0 +1,90 @@
+import * as editor from "./editor";
+
+// The rectangle selected in Visual Block mode, with inclusive columns.
+export interface Block {
+    startLine: number;
+    endLine: number;
+    startColumn: number;
+    endColumn: number;
+    // Set by $, every line is selected to its end whatever its length.
+    toEnd: boolean;
+}
+
+export function blockFromCorners(anchor: editor.Position, cursor: editor.Position, toEnd: boolean): Block {
+    return {
+        startLine: Math.min(anchor.line, cursor.line),
+        endLine: Math.max(anchor.line, cursor.line),
+        startColumn: Math.min(anchor.character, cursor.character),
+        endColumn: Math.max(anchor.character, cursor.character),
+        toEnd,
+    };
+}
+
+// The part of each line of the block that has text. Lines too short to reach the block have an empty range at their
+// end.
+export function blockRanges(document: editor.TextDocument, block: Block): editor.Range[] {
+    const ranges: editor.Range[] = [];
+    for (let line = block.startLine; line <= block.endLine; line++) {
+        const length = document.lineAt(line).text.length;
+        const start = Math.min(block.startColumn, length);
+        const end = block.toEnd ? length : Math.min(block.endColumn + 1, length);
+        ranges.push(new editor.Range(line, start, line, end));
+    }
+    return ranges;
+}
+
+// One selection per line of the block, facing the same way as the block. The cursor's line comes first so it is the
+// primary selection.
+export function blockSelections(document: editor.TextDocument, anchor: editor.Position, cursor: editor.Position,
+                                toEnd: boolean): editor.Selection[] {
+    const reversed = cursor.character < anchor.character && !toEnd;
+    const selections = blockRanges(document, blockFromCorners(anchor, cursor, toEnd)).map(r =>
+        reversed ? new editor.Selection(r.end, r.start) : new editor.Selection(r.start, r.end));
+    const cursorIndex = cursor.line - Math.min(anchor.line, cursor.line);
+    return [selections[cursorIndex]].concat(selections.filter((s, i) => i !== cursorIndex));
+}
+
+// The text of a blockwise register: the text of each line of the block, one per line.
+export function blockText(document: editor.TextDocument, block: Block): string {
+    return blockRanges(document, block).map(r => document.getText(r)).join("\n");
+}
+
+// The edits that put a blockwise register's text with its first line at position, each line at the same column,
+// count times side by side. Lines that are too short are padded with spaces and missing lines are added.
+export function putBlock(document: editor.TextDocument, text: string, position: editor.Position, count: number,
+                         edit: editor.TextEditorEdit) {
+    const lines = text.split("\n");
+    const width = Math.max(...lines.map(l => l.length));
+    const pad = (length: number) => new Array(Math.max(length, 0) + 1).join(" ");
+    const inserts: { position: editor.Position, text: string }[] = [];
+    let appended = "";
+    lines.forEach((l, i) => {
+        let piece = "";
+        for (let k = 0; k < count; k++) {
+            piece += l + (k < count - 1 ? pad(width - l.length) : "");
+        }
+        const lineNumber = position.line + i;
+        if (lineNumber >= document.lineCount) {
+            appended += "\n" + pad(position.character) + piece;
+            return;
+        }
+        const line = document.lineAt(lineNumber);
+        if (line.text.length < position.character) {
+            inserts.push({ position: line.range.end, text: pad(position.character - line.text.length) + piece });
+        } else {
+            // Keep the text after the block lined up
+            const trailing = line.text.length > position.character ? pad(width - l.length) : "";
+            inserts.push({ position: new editor.Position(lineNumber, position.character), text: piece + trailing });
+        }
+    });
+    if (appended) {
+        // Edits may not overlap, so lines added after the end of the document join an insert already made there
+        const end = document.lineAt(document.lineCount - 1).range.end;
+        const last = inserts[inserts.length - 1];
+        if (last && last.position.isEqual(end))
+            last.text += appended;
+        else
+            inserts.push({ position: end, text: appended });
+    }
+    inserts.forEach(i => edit.insert(i.position, i.text));
+}
@@ -1,10 +1,12 @@
 
-import * as vscode from "vscode";
+import * as editor from "./editor";
 
 export enum VimMode {
     Normal,
     Insert,
     Visual,
+    VisualLine,
+    VisualBlock,
     Select,
     Cmdline,
     Ex,
@@ -17,11 +19,15 @@ export enum VimMode {
     Jump,
 }
 
+// The characters words (WordType.Text) are made of, as a regular expression class.
+export const wordCharacterClass = "\\w";
+const wordCharacter = new RegExp(wordCharacterClass);
+
 function getCharacterType(c: string): WordType {
     if (c.match(/\s/)) {
         return WordType.Whitespace;
     }
-    if (c.match(/\w/)) {
+    if (c.match(wordCharacter)) {
         return WordType.Text;
     }
     return WordType.Symbols;
@@ -29,9 +35,9 @@ function getCharacterType(c: string): WordType {
 
 export class VimDocument {
     private text: string;
-    private document: vscode.TextDocument;
+    private document: editor.TextDocument;
 
-    public constructor(textDocument: vscode.TextDocument) {
+    public constructor(textDocument: editor.TextDocument) {
         this.document = textDocument;
     }
 
@@ -41,7 +47,7 @@ export class VimDocument {
     }
 
     public positionFromLine(line: number, column: number) {
-        const index = this.document.offsetAt(new vscode.Position(line, column));
+        const index = this.document.offsetAt(new editor.Position(line, column));
         const position = this.document.positionAt(index);
         return new Position(this, index, position.line, position.character);
     }
@@ -57,11 +63,11 @@ export class VimDocument {
         return this.document.lineCount;
     }
 
-    public getLine(n: number): vscode.TextLine {
+    public getLine(n: number): editor.TextLine {
         return this.document.lineAt(n);
     }
 
-    public getLineByIndex(index: number): vscode.TextLine {
+    public getLineByIndex(index: number): editor.TextLine {
         return this.document.lineAt(this.document.positionAt(index));
     }
 
@@ -85,9 +91,10 @@ export class VimDocument {
                 break;
             }
         }
+        // The loops run one past the text when the word is at its start or end
         return {
-            start: wordStart,
-            end: wordEnd,
+            start: Math.max(wordStart, 0),
+            end: Math.min(wordEnd, text.length - 1),
             type: wordType,
         };
     }
@@ -112,9 +119,10 @@ export class VimDocument {
                 break;
             }
         }
+        // The loops run one past the text when the word is at its start or end
         return {
-            start: wordStart,
-            end: wordEnd,
+            start: Math.max(wordStart, 0),
+            end: Math.min(wordEnd, text.length - 1),
             type: wordType ? WordType.Text : WordType.Whitespace,
         };
     }
@@ -152,6 +160,8 @@ export interface MotionAction {
     motion: string;
     target?: any;
     count: number;
+    // "v" or "V" when typed after an operator before the motion, to make it characterwise or linewise (:help o_v)
+    forced?: string;
 }
 
 export interface ChangeModeAction {
@@ -0,0 +1,243 @@
+// The editor surface the Vim engine runs against. These types mirror the subset of the VS Code API that the engine
+// uses so that the engine itself never touches the 'vscode' module and can be hosted elsewhere (a Monaco page, a
+// plain Node script, the tests).
+
+export class Position {
+    public line: number;
+    public character: number;
+
+    public constructor(line: number, character: number) {
+        this.line = line;
+        this.character = character;
+    }
+
+    public isBefore(other: Position): boolean {
+        return this.compareTo(other) < 0;
+    }
+
+    public isBeforeOrEqual(other: Position): boolean {
+        return this.compareTo(other) <= 0;
+    }
+
+    public isAfter(other: Position): boolean {
+        return this.compareTo(other) > 0;
+    }
+
+    public isAfterOrEqual(other: Position): boolean {
+        return this.compareTo(other) >= 0;
+    }
+
+    public isEqual(other: Position): boolean {
+        return this.compareTo(other) === 0;
+    }
+
+    public compareTo(other: Position): number {
+        if (this.line !== other.line)
+            return this.line < other.line ? -1 : 1;
+        if (this.character !== other.character)
+            return this.character < other.character ? -1 : 1;
+        return 0;
+    }
+
+    public translate(lineDelta: number, characterDelta: number): Position {
+        return new Position(this.line + lineDelta, this.character + characterDelta);
+    }
+
+    public with(line: number, character: number): Position {
+        return new Position(line == null ? this.line : line, character == null ? this.character : character);
+    }
+}
+
+export class Range {
+    public start: Position;
+    public end: Position;
+
+    public constructor(start: Position, end: Position);
+    public constructor(startLine: number, startCharacter: number, endLine: number, endCharacter: number);
+    public constructor(a: any, b: any, c?: number, d?: number) {
+        let start: Position = typeof a === "number" ? new Position(a, b) : a;
+        let end: Position = typeof a === "number" ? new Position(c, d) : b;
+        if (end.isBefore(start)) {
+            const temp = start;
+            start = end;
+            end = temp;
+        }
+        this.start = start;
+        this.end = end;
+    }
+
+    public get isEmpty(): boolean {
+        return this.start.isEqual(this.end);
+    }
+
+    public get isSingleLine(): boolean {
+        return this.start.line === this.end.line;
+    }
+
+    public contains(positionOrRange: Position | Range): boolean {
+        if (positionOrRange instanceof Range) {
+            return this.contains(positionOrRange.start) && this.contains(positionOrRange.end);
+        }
+        const position = positionOrRange as Position;
+        return this.start.isBeforeOrEqual(position) && this.end.isAfterOrEqual(position);
+    }
+
+    public isEqual(other: Range): boolean {
+        return this.start.isEqual(other.start) && this.end.isEqual(other.end);
+    }
+
+    public union(other: Range): Range {
+        const start = this.start.isBefore(other.start) ? this.start : other.start;
+        const end = this.end.isAfter(other.end) ? this.end : other.end;
+        return new Range(start, end);
+    }
+
+    public intersection(other: Range): Range {
+        const start = this.start.isAfter(other.start) ? this.start : other.start;
+        const end = this.end.isBefore(other.end) ? this.end : other.end;
+        if (start.isAfter(end))
+            return null;
+        return new Range(start, end);
+    }
+}
+
+export class Selection extends Range {
+    public anchor: Position;
+    public active: Position;
+
+    public constructor(anchor: Position, active: Position);
+    public constructor(anchorLine: number, anchorCharacter: number, activeLine: number, activeCharacter: number);
+    public constructor(a: any, b: any, c?: number, d?: number) {
+        const anchor: Position = typeof a === "number" ? new Position(a, b) : a;
+        const active: Position = typeof a === "number" ? new Position(c, d) : b;
+        super(anchor, active);
+        this.anchor = anchor;
+        this.active = active;
+    }
+
+    public get isReversed(): boolean {
+        return this.active.isBefore(this.anchor);
+    }
+}
+
+export interface TextLine {
+    lineNumber: number;
+    text: string;
+    range: Range;
+    rangeIncludingLineBreak: Range;
+    firstNonWhitespaceCharacterIndex: number;
+    isEmptyOrWhitespace: boolean;
+}
+
+export interface TextDocument {
+    // An identifier for the document that is stable for as long as it is open, e.g. a URI.
+    uri: string;
+    lineCount: number;
+    getText(range?: Range): string;
+    lineAt(lineOrPosition: number | Position): TextLine;
+    offsetAt(position: Position): number;
+    positionAt(offset: number): Position;
+    validatePosition(position: Position): Position;
+    validateRange(range: Range): Range;
+}
+
+export interface TextDocumentContentChangeEvent {
+    range: Range;
+    rangeLength: number;
+    text: string;
+}
+
+export interface TextDocumentChangeEvent {
+    document: TextDocument;
+    contentChanges: TextDocumentContentChangeEvent[];
+}
+
+export interface TextEditorEdit {
+    insert(location: Position, value: string): void;
+    delete(location: Range): void;
+    replace(location: Range, value: string): void;
+}
+
+export enum CursorStyle {
+    Line,
+    Block,
+    Underline,
+}
+
+// A color of the editor's theme by its id, which users can change in their settings.
+export class ThemeColor {
+    public id: string;
+
+    public constructor(id: string) {
+        this.id = id;
+    }
+}
+
+// An opaque handle to a decoration created by the host.
+export interface DecorationType {
+    key: string;
+}
+
+export interface DecorationOptions {
+    color?: string | ThemeColor;
+    backgroundColor?: string | ThemeColor;
+    border?: string;
+    // Text rendered in front of the decorated range, used for jump labels. The text can also be given for each range
+    // when the decorations are set.
+    before?: {
+        contentText?: string;
+        color?: string | ThemeColor;
+        backgroundColor?: string | ThemeColor;
+        // CSS for the text, as VS Code has it
+        textDecoration?: string;
+    };
+}
+
+export interface TextEditor {
+    document: TextDocument;
+    selection: Selection;
+    selections: Selection[];
+    // How many columns apart tab stops are
+    tabSize: number;
+    // The parts of the document that are scrolled into view
+    visibleRanges: Range[];
+    edit(callback: (editBuilder: TextEditorEdit) => void): Promise<boolean>;
+    // Shows a decoration on ranges. labels, if given, is the text in front of each range.
+    setDecorations(decorationType: DecorationType, ranges: Range[], labels?: string[]): void;
+    revealRange(range: Range): void;
+    setCursorStyle(style: CursorStyle): void;
+}
+
+export enum StatusItem {
+    Mode,
+    EnteredText,
+    // What Vim shows on its command line: the command being typed, errors and other messages.
+    Message,
+}
+
+export interface Disposable {
+    dispose(): void;
+}
+
+export interface EditorHost {
+    // The editor keys are sent to, or null if there is none.
+    activeTextEditor: TextEditor;
+    createDecorationType(options: DecorationOptions): DecorationType;
+    setStatusText(item: StatusItem, text: string): void;
+    // Sets a context key, which the when clauses of the extension's key bindings can test.
+    setContext(key: string, value: boolean): void;
+    // Runs one of the editor's built in commands (e.g. "cursorLeft", "default:type", "undo") for the behavior the
+    // engine does not implement itself.
+    executeCommand(command: string, ...rest: any[]): Promise<any>;
+    // The system clipboard, which the + and * registers are.
+    readClipboard(): Promise<string>;
+    writeClipboard(text: string): Promise<void>;
+    // Shows what a command such as :registers lists, one line after the other.
+    showOutput(lines: string[]): void;
+    // Makes the editor of a document active, opening the document if it has to. Resolves to the editor, or to null if
+    // the document cannot be opened.
+    showDocument(uri: string): Promise<TextEditor>;
+    onDidChangeTextDocument(listener: (e: TextDocumentChangeEvent) => void): Disposable;
+    onDidChangeSelections(listener: (selections: Selection[]) => void): Disposable;
+    onDidChangeActiveTextEditor(listener: (editor: TextEditor) => void): Disposable;
+}
@@ -0,0 +1,217 @@
+import { isMarkName } from "./marks";
+
+// Parsing Ex command lines (:help cmdline-ranges): the range of lines in front of a command, the command's name and
+// what follows it. Line numbers are 1-based as they are typed, and 0 is the position before the first line.
+
+// What addresses are resolved against.
+export interface AddressContext {
+    // The line the cursor is on
+    currentLine: number;
+    lineCount: number;
+    // The line a mark is on, or null if it is not set
+    markLine(mark: string): number;
+    // The first line after line (before it when searching backwards) with a match of pattern, wrapping around the
+    // document. Throws a Vim error when there is none.
+    searchLine(pattern: string, forward: boolean, line: number): number;
+}
+
+export interface LineRange {
+    start: number;
+    end: number;
+}
+
+export interface ExCommand {
+    // The lines the command applies to, or null when no range was typed
+    range: LineRange;
+    // The full name of the command, or "" for a range on its own
+    name: string;
+    bang: boolean;
+    argument: string;
+}
+
+// The commands by the shortest abbreviation they can be typed as, followed by the rest of their name.
+const commandNames = [
+    "changes", "co[py]", "d[elete]", "delm[arks]", "di[splay]", "g[lobal]", "j[oin]", "ju[mps]", "marks", "m[ove]",
+    "noh[lsearch]", "norm[al]", "p[rint]", "q[uit]", "reg[isters]", "s[ubstitute]", "t", "v[global]", "w[rite]", "y[ank]",
+];
+
+function fullCommandName(name: string): string {
+    for (const command of commandNames) {
+        const match = /^(\w+)(?:\[(\w+)\])?$/.exec(command);
+        const full = match[1] + (match[2] || "");
+        if (name.length >= match[1].length && full.substring(0, name.length) === name)
+            return full;
+    }
+    return null;
+}
+
+// Reads the argument of :delmarks: mark names, where a-d stands for the marks from a to d, with any spaces between.
+export function parseMarkNames(argument: string): string[] {
+    const names: string[] = [];
+    const text = argument.replace(/\s/g, "");
+    for (let i = 0; i < text.length; i++) {
+        const range = text.substring(i, i + 3);
+        if (/^([a-z]-[a-z]|[A-Z]-[A-Z])$/.test(range) && range[0] <= range[2]) {
+            for (let c = range.charCodeAt(0); c <= range.charCodeAt(2); c++) {
+                names.push(String.fromCharCode(c));
+            }
+            i += 2;
+        } else if (isMarkName(text[i]) && text[i + 1] !== "-") {
+            names.push(text[i]);
+        } else {
+            throw new Error(`E475: Invalid argument: ${text.substring(i)}`);
+        }
+    }
+    return names;
+}
+
+function skipSpaces(text: string, index: number): number {
+    while (index < text.length && /\s/.test(text[index]))
+        index++;
+    return index;
+}
+
+// Reads a pattern up to an unescaped delimiter, or the end of the text. A backslash before the delimiter makes it
+// part of the pattern.
+export function readPattern(text: string, index: number, delimiter: string): { pattern: string, index: number } {
+    let pattern = "";
+    for (; index < text.length && text[index] !== delimiter; index++) {
+        if (text[index] === "\\" && index + 1 < text.length) {
+            index++;
+            pattern += text[index] === delimiter ? delimiter : "\\" + text[index];
+        } else {
+            pattern += text[index];
+        }
+    }
+    return { pattern, index: index < text.length ? index + 1 : index };
+}
+
+// Reads the argument of :g and :v, '/{pattern}/[command]', where any character other than a letter, digit, '\', '"',
+// '|' or a space can take the place of '/'. The command is :p when it is left out.
+export function parseGlobal(argument: string): { pattern: string, command: string } {
+    const delimiter = argument[0];
+    if (!delimiter)
+        throw new Error("E148: Regular expression missing from :global");
+    if (/[a-zA-Z0-9\\"|\s]/.test(delimiter))
+        throw new Error("E146: Regular expressions can't be delimited by letters");
+    const pattern = readPattern(argument, 1, delimiter);
+    const command = argument.substring(pattern.index);
+    return { pattern: pattern.pattern, command: /^\s*$/.test(command) ? "p" : command };
+}
+
+// Parses one address at index: a line number, ., $, 'x or a /pattern/ or ?pattern?, followed by any number of +N and
+// -N offsets. Offsets on their own are relative to line. Returns null if there is no address at index.
+export function parseAddress(text: string, index: number, line: number, context: AddressContext): { line: number, index: number } {
+    let i = skipSpaces(text, index);
+    let address: number = null;
+    const c = text[i];
+    if (/[0-9]/.test(c)) {
+        const digits = /^[0-9]+/.exec(text.substring(i))[0];
+        address = Number(digits);
+        i += digits.length;
+    } else if (c === ".") {
+        address = line;
+        i++;
+    } else if (c === "$") {
+        address = context.lineCount;
+        i++;
+    } else if (c === "'") {
+        if (i + 1 >= text.length)
+            throw new Error("E20: Mark not set");
+        address = context.markLine(text[i + 1]);
+        if (address == null)
+            throw new Error("E20: Mark not set");
+        i += 2;
+    } else if (c === "/" || c === "?") {
+        const search = readPattern(text, i + 1, c);
+        address = context.searchLine(search.pattern, c === "/", line);
+        i = search.index;
+    }
+
+    for (i = skipSpaces(text, i); text[i] === "+" || text[i] === "-"; i = skipSpaces(text, i)) {
+        const offset = /^[+-]([0-9]*)/.exec(text.substring(i));
+        address = (address == null ? line : address) + (text[i] === "+" ? 1 : -1) * Number(offset[1] || "1");
+        i += offset[0].length;
+    }
+    if (address == null)
+        return null;
+    if (address < 0)
+        throw new Error("E16: Invalid range");
+    return { line: address, index: i };
+}
+
+// Parses the range at the start of text: % or addresses separated by ',' or ';'. After ';' the addresses that follow
+// are relative to the one before it. A missing address is the current line.
+export function parseRange(text: string, context: AddressContext): { range: LineRange, index: number } {
+    let i = skipSpaces(text, 0);
+    if (text[i] === "%")
+        return { range: { start: 1, end: context.lineCount }, index: i + 1 };
+
+    const lines: number[] = [];
+    let line = context.currentLine;
+    let separated = false;
+    for (;;) {
+        const address = parseAddress(text, i, line, context);
+        if (address)
+            i = address.index;
+        i = skipSpaces(text, i);
+        const separator = text[i] === "," || text[i] === ";" ? text[i] : null;
+        if (address || separator || separated)
+            lines.push(address ? address.line : context.currentLine);
+        if (!separator)
+            break;
+        if (separator === ";")
+            line = lines[lines.length - 1];
+        separated = true;
+        i++;
+    }
+
+    if (lines.length === 0)
+        return { range: null, index: i };
+    const start = lines[Math.max(lines.length - 2, 0)];
+    const end = lines[lines.length - 1];
+    return { range: { start: Math.min(start, end), end: Math.max(start, end) }, index: i };
+}
+
+// Parses a command line into its range, name and argument. Throws a Vim error for a bad range or an unknown command.
+export function parseCommand(text: string, context: AddressContext): ExCommand {
+    const parsed = parseRange(text, context);
+    let i = skipSpaces(text, parsed.index);
+    // Names are letters, except for the shift commands that repeat their character and :&
+    const name = /^([a-zA-Z]+|>+|<+|&)?/.exec(text.substring(i))[0];
+    i += name.length;
+    let fullName = name;
+    if (/^[a-zA-Z]/.test(name)) {
+        fullName = fullCommandName(name);
+        if (!fullName)
+            throw new Error(`E492: Not an editor command: ${text.trim()}`);
+    } else if (!name && i < text.length) {
+        throw new Error(`E492: Not an editor command: ${text.trim()}`);
+    }
+    const bang = text[i] === "!";
+    if (bang)
+        i++;
+    return { range: parsed.range, name: fullName, bang, argument: text.substring(skipSpaces(text, i)) };
+}
+
+// Parses the destination address of :m and :t, which may be 0 to put the lines before the first.
+export function parseDestination(argument: string, context: AddressContext): number {
+    const address = parseAddress(argument, 0, context.currentLine, context);
+    if (!address)
+        throw new Error("E14: Invalid address");
+    const rest = argument.substring(skipSpaces(argument, address.index));
+    if (rest)
+        throw new Error(`E488: Trailing characters: ${rest}`);
+    if (address.line > context.lineCount)
+        throw new Error("E16: Invalid range");
+    return address.line;
+}
+
+// Parses the '[x] [count]' argument of :d and :y, or the '[count]' of :j, :> and :<. The register and count are null
+// when they are left out.
+export function parseCountArgument(argument: string, withRegister: boolean): { register: string, count: number } {
+    const match = (withRegister ? /^([^0-9\s])?\s*([1-9][0-9]*)?\s*$/ : /^()([1-9][0-9]*)?\s*$/).exec(argument);
+    if (!match)
+        throw new Error(`E488: Trailing characters: ${argument}`);
+    return { register: match[1] || null, count: match[2] ? Number(match[2]) : null };
+}
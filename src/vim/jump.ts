@@ -0,0 +1,53 @@
+import { wordCharacterClass } from "./common";
+import { Position } from "./editor";
+import { PrefixedRegExp } from "./pattern";
+
+// Labels for the targets of a jump (Q), as EasyMotion does it: every target shown at once with a label of one or two
+// keys, the targets nearest the cursor getting the labels of one key.
+
+// The keys labels are made of when none are set
+export const defaultJumpLabels = "abcdefghijklmnopqrstuvwxyz";
+
+// The targets of gQw: where words start, as w stops there. Each match is a whole run of word characters or of other
+// characters that are not white space, so it starts at the first of them.
+export const wordStartPattern = new RegExp(`${wordCharacterClass}+|[^${wordCharacterClass}\\s]+`, "g");
+
+// The targets of gQj: the first character of each line that is not white space, or the end of a blank line. The white
+// space before it is matched and left out of the match.
+export const lineStartPattern = new PrefixedRegExp("^([ \\t]*)(?:\\S|$)", "gm");
+
+export interface JumpSettings {
+    // The keys labels are made of, the first of them going to the targets nearest the cursor
+    jumpLabels?: string;
+}
+
+// The keys of a jumpLabels setting, each once, or the default ones if it does not have at least two.
+export function labelKeys(setting: string): string {
+    const keys = (setting || "").split("").filter((key, i, all) => all.indexOf(key) === i && key.trim() !== "");
+    return keys.length >= 2 ? keys.join("") : defaultJumpLabels;
+}
+
+// The labels for count targets, nearest first. When there are more targets than keys the last keys start labels of
+// two keys instead of being labels themselves, as few of them as it takes. There are no labels for targets past what
+// two keys can label.
+export function assignLabels(count: number, keys: string): string[] {
+    const n = keys.length;
+    const prefixes = count <= n ? 0 : Math.min(Math.ceil((count - n) / (n - 1)), n);
+    const labels = keys.substring(0, n - prefixes).split("");
+    for (const prefix of keys.substring(n - prefixes).split("")) {
+        for (const key of keys.split("")) {
+            labels.push(prefix + key);
+        }
+    }
+    return labels.slice(0, count);
+}
+
+// The targets ordered by how far they are from the cursor: the fewest lines away first, then the fewest characters.
+export function nearestFirst(targets: Position[], cursor: Position): Position[] {
+    const distance = (p: Position) => ({ lines: Math.abs(p.line - cursor.line), characters: Math.abs(p.character - cursor.character) });
+    return targets.slice().sort((a, b) => {
+        const da = distance(a);
+        const db = distance(b);
+        return da.lines - db.lines || da.characters - db.characters || a.compareTo(b);
+    });
+}
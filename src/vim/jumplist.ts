@@ -0,0 +1,94 @@
+import { Position } from "./editor";
+import { PositionTracker, TrackedPosition } from "./tracker";
+
+// The jumplist that Ctrl-O and Ctrl-I go back and forth in, and the changelist of each document that g; and g, do
+// (:help jumplist, :help changelist).
+
+// How many positions a list keeps before it drops the oldest
+export const positionListLimit = 100;
+
+// Positions to go back and forth between, oldest first. Every position stays on its text as documents change, even
+// when its line is deleted.
+export class PositionList {
+    protected tracker: PositionTracker;
+    protected entries: TrackedPosition[];
+    // The entry the last move went to, or one past the newest when there was no move since the last add
+    protected index: number;
+
+    public constructor(tracker: PositionTracker) {
+        this.tracker = tracker;
+        this.entries = [];
+        this.index = 0;
+    }
+
+    // The entry the last move went to, or one past the newest
+    public get current(): number {
+        return this.index;
+    }
+
+    // Adds a position as the newest, in place of the entries it makes unneeded. The next move starts from the newest.
+    public add(uri: string, position: Position) {
+        const replaced = this.entries.filter(entry => entry.position && this.replaces(entry, uri, position));
+        replaced.forEach(entry => this.tracker.untrack(entry));
+        this.entries = this.entries.filter(entry => replaced.indexOf(entry) === -1);
+        this.entries.push(this.tracker.track(uri, position, true));
+        while (this.entries.length > positionListLimit) {
+            this.tracker.untrack(this.entries.shift());
+        }
+        this.index = this.entries.length;
+    }
+
+    // Goes count entries newer, or older when count is negative, and returns that entry, or null if there is none.
+    public move(count: number): TrackedPosition {
+        const index = this.index + count;
+        if (index < 0 || index >= this.entries.length)
+            return null;
+        this.index = index;
+        return this.entries[index];
+    }
+
+    // Every entry, oldest first
+    public list(): TrackedPosition[] {
+        return this.entries.slice();
+    }
+
+    protected replaces(entry: TrackedPosition, uri: string, position: Position): boolean {
+        return false;
+    }
+}
+
+// The positions jumps were made from. A jump from a line takes the place of the ones made from that line before.
+export class JumpList extends PositionList {
+    // Goes back count jumps for Ctrl-O, or forward for Ctrl-I. Going back from the newest first adds where the cursor
+    // is, so that Ctrl-I comes back to it.
+    public jump(count: number, uri: string, position: Position): TrackedPosition {
+        if (count < 0 && this.index === this.entries.length) {
+            this.add(uri, position);
+            this.index = this.entries.length - 1;
+        }
+        return this.move(count);
+    }
+
+    protected replaces(entry: TrackedPosition, uri: string, position: Position): boolean {
+        return entry.uri === uri && entry.position.line === position.line;
+    }
+}
+
+// The places of the changes to one document. A change on the line of the last one, near enough to it (Vim takes
+// 'textwidth', 79 by default), takes its place.
+export class ChangeList extends PositionList {
+    // Moves the way g; and g, do: a count past the oldest or newest change goes to that change, unless it is already
+    // there, when there is no change to go to.
+    public move(count: number): TrackedPosition {
+        const index = Math.max(Math.min(this.index + count, this.entries.length - 1), 0);
+        if (index === this.index || this.entries.length === 0)
+            return null;
+        this.index = index;
+        return this.entries[index];
+    }
+
+    protected replaces(entry: TrackedPosition, uri: string, position: Position): boolean {
+        return entry === this.entries[this.entries.length - 1] && entry.position.line === position.line &&
+            Math.abs(entry.position.character - position.character) < 79;
+    }
+}
@@ -0,0 +1,44 @@
+// Keys written out as text, as in a macro register or a spec: special keys are written as their names in angle
+// brackets (<esc>, <cr>, ...) and so a '<' on its own as <lt>. Vim.key takes "\n" for <cr>, "\t" for <tab> and the
+// other special keys as they are written.
+
+const specialKeys: { [name: string]: string } = {
+    esc: "<esc>",
+    cr: "\n",
+    tab: "\t",
+    space: " ",
+    left: "<left>",
+    right: "<right>",
+    up: "<up>",
+    down: "<down>",
+    lt: "<",
+    "c-v": "<c-v>",
+    "c-r": "<c-r>",
+    "c-o": "<c-o>",
+    "c-i": "\t",
+    bs: "<bs>",
+};
+
+// Splits text into the keys it stands for. Anything in angle brackets that is not the name of a key is a '<' and the
+// characters after it.
+export function parseKeys(keys: string): string[] {
+    const result: string[] = [];
+    for (let i = 0; i < keys.length; i++) {
+        if (keys[i] === "<") {
+            const end = keys.indexOf(">", i);
+            const name = end === -1 ? null : keys.substring(i + 1, end).toLowerCase();
+            if (name && specialKeys.hasOwnProperty(name)) {
+                result.push(specialKeys[name]);
+                i = end;
+                continue;
+            }
+        }
+        result.push(keys[i]);
+    }
+    return result;
+}
+
+// Writes keys as text that parseKeys reads back as the same keys.
+export function keysToText(keys: string[]): string {
+    return keys.map(key => key === "<" ? "<lt>" : key).join("");
+}
@@ -0,0 +1,181 @@
+import { parseKeys } from "./keys";
+
+// User defined key mappings (:help mapping). Typed keys go into a typeahead, as in Vim, and come out of it with the
+// mappings of the current mode applied. Keys a mapping puts in the typeahead are mapped again unless it is a noremap
+// one.
+
+// A mapping as it is written in the settings: the keys typed, in Vim's notation with <leader> for the leader key, and
+// either the keys they stand for or the editor commands they run.
+export interface KeyBinding {
+    before: string;
+    after?: string;
+    commands?: string[];
+    // Whether the keys in after are left as they are, as :noremap does, instead of being mapped again as :map does
+    noremap?: boolean;
+}
+
+export interface MappingSettings {
+    normalModeKeyBindings?: KeyBinding[];
+    insertModeKeyBindings?: KeyBinding[];
+    visualModeKeyBindings?: KeyBinding[];
+    operatorPendingKeyBindings?: KeyBinding[];
+    leader?: string;
+    // How many milliseconds to wait for the rest of a mapping after keys that could start one
+    timeoutlen?: number;
+}
+
+// The modes mappings are defined for
+export type MappingMode = "normal" | "insert" | "visual" | "operatorPending";
+
+// What comes out of the typeahead: a key for the engine or a command for the editor.
+export interface ResolvedKey {
+    key?: string;
+    command?: string;
+}
+
+interface Mapping {
+    before: string[];
+    after: string[];
+    commands: string[];
+    recursive: boolean;
+}
+
+interface TypeaheadKey extends ResolvedKey {
+    // Whether the key may still be mapped
+    remap?: boolean;
+    // Whether the key was typed, rather than put in the typeahead by a mapping, a macro or :normal
+    typed?: boolean;
+}
+
+// How many mappings can be applied in a row before a recursive mapping is given up on, as Vim's 'maxmapdepth'
+const maxMapDepth = 1000;
+
+function startsWith(keys: string[], prefix: string[]): boolean {
+    return prefix.length <= keys.length && prefix.every((key, i) => keys[i] === key);
+}
+
+function parseMapping(binding: KeyBinding, leader: string): Mapping {
+    const parse = (keys: string) => parseKeys(keys.replace(/<leader>/gi, leader === "<" ? "<lt>" : leader));
+    if (!binding || typeof binding.before !== "string" || !binding.before || (binding.after == null && !binding.commands))
+        return null;
+    return {
+        before: parse(binding.before),
+        after: binding.after != null ? parse(binding.after) : [],
+        commands: binding.commands || [],
+        recursive: !binding.noremap,
+    };
+}
+
+export class KeyMapper {
+    private mappings: { [mode: string]: Mapping[] };
+    private typeahead: TypeaheadKey[];
+    // How many typed keys went into what next returned last, and how many the mappings applied since then used up
+    private takenTyped: number;
+    private mappedTyped: number;
+
+    public constructor(settings: MappingSettings) {
+        const leader = settings.leader || "\\";
+        const parse = (bindings: KeyBinding[]) => (bindings || []).map(b => parseMapping(b, leader)).filter(m => m !== null);
+        this.mappings = {
+            normal: parse(settings.normalModeKeyBindings),
+            insert: parse(settings.insertModeKeyBindings),
+            visual: parse(settings.visualModeKeyBindings),
+            operatorPending: parse(settings.operatorPendingKeyBindings),
+        };
+        this.typeahead = [];
+        this.takenTyped = 0;
+        this.mappedTyped = 0;
+    }
+
+    // Adds a typed key to the typeahead.
+    public type(key: string) {
+        this.typeahead.push({ key, remap: true, typed: true });
+    }
+
+    // Puts keys ahead of everything in the typeahead, as replaying a macro and :normal do. They are mapped like typed
+    // keys unless remap is false.
+    public insert(keys: string[], remap: boolean) {
+        this.typeahead.unshift(...keys.map(key => ({ key, remap })));
+    }
+
+    // Drops every key that was not typed, as a command that fails does to the rest of a macro.
+    public flushInserted() {
+        this.typeahead = this.typeahead.filter(k => k.typed);
+    }
+
+    // Whether keys are left in the typeahead waiting for what is typed next.
+    public get waiting(): boolean {
+        return this.typeahead.length > 0;
+    }
+
+    // How many of the keys waiting were not typed. They are ahead of the typed ones.
+    public get inserted(): number {
+        return this.typeahead.filter(k => !k.typed).length;
+    }
+
+    // How many of the keys waiting were typed.
+    public get typedWaiting(): number {
+        return this.typeahead.filter(k => k.typed).length;
+    }
+
+    // How many typed keys the key or command next returned last was made of: the key itself if it was typed, and the
+    // keys of the mappings it came out of.
+    public get lastTyped(): number {
+        return this.takenTyped;
+    }
+
+    // Takes what comes next out of the typeahead, with the mappings of mode applied (none when mode is null). Returns
+    // null when the typeahead is empty or it could be the start of a longer mapping, in which case it waits for more
+    // keys unless timedOut, when the keys are taken as they are. Throws E223 for a mapping that keeps mapping itself.
+    public next(mode: MappingMode, timedOut: boolean): ResolvedKey {
+        const mappings = mode ? this.mappings[mode] : [];
+        for (let depth = 0; this.typeahead.length > 0; depth++) {
+            const first = this.typeahead[0];
+            if (first.command || !first.remap || mappings.length === 0)
+                return this.take();
+
+            let length = 0;
+            while (length < this.typeahead.length && this.typeahead[length].key != null && this.typeahead[length].remap)
+                length++;
+            const keys = this.typeahead.slice(0, length).map(k => k.key);
+            let match: Mapping = null;
+            let longer = false;
+            for (const mapping of mappings) {
+                if (startsWith(keys, mapping.before)) {
+                    if (!match || mapping.before.length > match.before.length)
+                        match = mapping;
+                } else if (startsWith(mapping.before, keys)) {
+                    longer = true;
+                }
+            }
+            // Only keys still to be typed can complete a longer mapping
+            if (longer && length === this.typeahead.length && !timedOut)
+                return null;
+            if (!match)
+                return this.take();
+            if (depth >= maxMapDepth) {
+                this.typeahead = [];
+                this.mappedTyped = 0;
+                throw new Error("E223: recursive mapping");
+            }
+            this.mappedTyped += this.typeahead.slice(0, match.before.length).filter(k => k.typed).length;
+            this.typeahead.splice(0, match.before.length, ...this.replacement(match));
+        }
+        return null;
+    }
+
+    private take(): ResolvedKey {
+        const next = this.typeahead.shift();
+        this.takenTyped = this.mappedTyped + (next.typed ? 1 : 0);
+        this.mappedTyped = 0;
+        return next.command ? { command: next.command } : { key: next.key };
+    }
+
+    // What a mapping puts in the typeahead. When its keys start with the keys that are mapped those are not mapped
+    // again, so that "j" to "jzz" is not endless (:help recursive_mapping).
+    private replacement(mapping: Mapping): TypeaheadKey[] {
+        const keepsBefore = mapping.recursive && startsWith(mapping.after, mapping.before);
+        const keys = mapping.after.map((key, i) => ({ key, remap: mapping.recursive && !(keepsBefore && i < mapping.before.length) }));
+        return [].concat(keys, mapping.commands.map(command => ({ command })));
+    }
+}
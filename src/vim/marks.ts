@@ -0,0 +1,69 @@
+import { Position } from "./editor";
+import { PositionTracker, TrackedPosition } from "./tracker";
+
+// Where a mark is: the document it was set in and the position in it
+export interface MarkPosition {
+    uri: string;
+    position: Position;
+}
+
+// The marks :marks lists, in the order it lists them. ` is the same mark as '.
+const markNames = "'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ[]^.<>";
+
+// Whether there is a mark of that name.
+export function isMarkName(name: string): boolean {
+    return name.length === 1 && (name === "`" || markNames.indexOf(name) !== -1);
+}
+
+// The marks of every document (:help mark-motions). a-z and the special marks belong to the document they were set
+// in, A-Z (file marks) are set in one document at a time and jumping to one opens that document. The tracker keeps
+// every mark on the text it was set on as the document changes, and deletes it with its line.
+export class Marks {
+    private tracker: PositionTracker;
+    private documents: { [uri: string]: { [name: string]: TrackedPosition } };
+    private files: { [name: string]: TrackedPosition };
+
+    public constructor(tracker: PositionTracker) {
+        this.tracker = tracker;
+        this.documents = {};
+        this.files = {};
+    }
+
+    // Where a mark of the document uri is, or null if it is not set.
+    public get(uri: string, name: string): MarkPosition {
+        name = name === "`" ? "'" : name;
+        const tracked = /^[A-Z]$/.test(name) ? this.files[name] : this.documents[uri] && this.documents[uri][name];
+        return tracked && tracked.position ? { uri: tracked.uri, position: tracked.position } : null;
+    }
+
+    // Sets a mark of the document uri. Returns false if there is no such mark.
+    public set(uri: string, name: string, position: Position): boolean {
+        name = name === "`" ? "'" : name;
+        if (!isMarkName(name))
+            return false;
+        const marks = /^[A-Z]$/.test(name) ? this.files : this.documents[uri] || (this.documents[uri] = {});
+        const tracked = marks[name];
+        if (tracked && tracked.uri === uri) {
+            tracked.position = position;
+        } else {
+            if (tracked)
+                this.tracker.untrack(tracked);
+            marks[name] = this.tracker.track(uri, position);
+        }
+        return true;
+    }
+
+    public delete(uri: string, name: string) {
+        name = name === "`" ? "'" : name;
+        const marks = /^[A-Z]$/.test(name) ? this.files : this.documents[uri] || {};
+        if (marks[name]) {
+            this.tracker.untrack(marks[name]);
+            delete marks[name];
+        }
+    }
+
+    // The marks the document uri has, in the order :marks lists them. File marks set in other documents are included.
+    public list(uri: string): { name: string, mark: MarkPosition }[] {
+        return markNames.split("").map(name => ({ name, mark: this.get(uri, name) })).filter(m => m.mark !== null);
+    }
+}
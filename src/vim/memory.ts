@@ -0,0 +1,535 @@
+import {
+    CursorStyle, DecorationOptions, DecorationType, Disposable, EditorHost, Position, Range, Selection, StatusItem,
+    TextDocument, TextDocumentChangeEvent, TextDocumentContentChangeEvent, TextEditor, TextEditorEdit, TextLine,
+} from "./editor";
+
+// An in-memory implementation of the editor surface. It has no dependency on VS Code, so the engine can be driven
+// from plain Node (tests, scripts) with it.
+
+interface PendingEdit {
+    start: number;
+    end: number;
+    text: string;
+}
+
+interface UndoState {
+    text: string;
+    selections: Selection[];
+}
+
+export class MemoryDocument implements TextDocument {
+    public uri: string;
+    private text: string;
+    private lineStarts: number[];
+
+    public constructor(text: string, uri: string) {
+        this.uri = uri;
+        this.setText(text);
+    }
+
+    public get lineCount(): number {
+        return this.lineStarts.length;
+    }
+
+    public getText(range?: Range): string {
+        if (!range)
+            return this.text;
+        range = this.validateRange(range);
+        return this.text.substring(this.offsetAt(range.start), this.offsetAt(range.end));
+    }
+
+    public lineAt(lineOrPosition: number | Position): TextLine {
+        const lineNumber = typeof lineOrPosition === "number" ? lineOrPosition : (lineOrPosition as Position).line;
+        if (lineNumber < 0 || lineNumber >= this.lineCount)
+            throw new Error(`Illegal value for line: ${lineNumber}`);
+
+        const start = this.lineStarts[lineNumber];
+        const isLastLine = lineNumber === this.lineCount - 1;
+        const end = isLastLine ? this.text.length : this.lineStarts[lineNumber + 1] - 1;
+        const text = this.text.substring(start, end);
+        const firstNonWhitespace = text.search(/\S/);
+        return {
+            lineNumber,
+            text,
+            range: new Range(lineNumber, 0, lineNumber, text.length),
+            rangeIncludingLineBreak: isLastLine ?
+                new Range(lineNumber, 0, lineNumber, text.length) :
+                new Range(lineNumber, 0, lineNumber + 1, 0),
+            firstNonWhitespaceCharacterIndex: firstNonWhitespace === -1 ? text.length : firstNonWhitespace,
+            isEmptyOrWhitespace: firstNonWhitespace === -1,
+        };
+    }
+
+    public offsetAt(position: Position): number {
+        position = this.validatePosition(position);
+        return this.lineStarts[position.line] + position.character;
+    }
+
+    public positionAt(offset: number): Position {
+        offset = Math.max(0, Math.min(Math.floor(offset), this.text.length));
+        let low = 0;
+        let high = this.lineStarts.length - 1;
+        while (low < high) {
+            const mid = Math.ceil((low + high) / 2);
+            if (this.lineStarts[mid] <= offset)
+                low = mid;
+            else
+                high = mid - 1;
+        }
+        return new Position(low, offset - this.lineStarts[low]);
+    }
+
+    public validatePosition(position: Position): Position {
+        if (position.line < 0)
+            return new Position(0, 0);
+        if (position.line >= this.lineCount) {
+            const lastLine = this.lineCount - 1;
+            return new Position(lastLine, this.lineLength(lastLine));
+        }
+        const character = Math.max(0, Math.min(position.character, this.lineLength(position.line)));
+        return character === position.character ? position : new Position(position.line, character);
+    }
+
+    public validateRange(range: Range): Range {
+        const start = this.validatePosition(range.start);
+        const end = this.validatePosition(range.end);
+        return start === range.start && end === range.end ? range : new Range(start, end);
+    }
+
+    public setText(text: string) {
+        this.text = text;
+        this.lineStarts = [0];
+        for (let i = 0; i < text.length; i++) {
+            if (text[i] === "\n")
+                this.lineStarts.push(i + 1);
+        }
+    }
+
+    private lineLength(line: number): number {
+        const end = line === this.lineCount - 1 ? this.text.length : this.lineStarts[line + 1] - 1;
+        return end - this.lineStarts[line];
+    }
+}
+
+export class MemoryEditor implements TextEditor {
+    public document: MemoryDocument;
+    public cursorStyle: CursorStyle;
+    public tabSize: number;
+    // The ranges currently shown for each decoration type, keyed by DecorationType.key, and the text in front of
+    // each for those set with labels
+    public decorations: { [key: string]: Range[] };
+    public labels: { [key: string]: string[] };
+    // The parts of the document a test scrolled into view, or null for all of it
+    private visible: Range[];
+    private currentSelections: Selection[];
+    private host: MemoryHost;
+    private undoStack: UndoState[];
+    private redoStack: UndoState[];
+    // Consecutive typed text is undone as one step, the same as in VS Code
+    private typing: boolean;
+
+    public constructor(host: MemoryHost, document: MemoryDocument) {
+        this.host = host;
+        this.document = document;
+        this.cursorStyle = CursorStyle.Block;
+        this.tabSize = 4;
+        this.decorations = {};
+        this.labels = {};
+        this.visible = null;
+        this.currentSelections = [new Selection(0, 0, 0, 0)];
+        this.undoStack = [];
+        this.redoStack = [];
+        this.typing = false;
+    }
+
+    public get selection(): Selection {
+        return this.currentSelections[0];
+    }
+
+    public set selection(selection: Selection) {
+        this.selections = [selection];
+    }
+
+    public get selections(): Selection[] {
+        return this.currentSelections.slice();
+    }
+
+    public set selections(selections: Selection[]) {
+        this.typing = false;
+        this.updateSelections(selections.map(s => {
+            const anchor = this.document.validatePosition(s.anchor);
+            const active = this.document.validatePosition(s.active);
+            return anchor === s.anchor && active === s.active ? s : new Selection(anchor, active);
+        }));
+    }
+
+    public edit(callback: (editBuilder: TextEditorEdit) => void): Promise<boolean> {
+        const edits: PendingEdit[] = [];
+        const add = (range: Range, text: string) => {
+            range = this.document.validateRange(range);
+            edits.push({ start: this.document.offsetAt(range.start), end: this.document.offsetAt(range.end), text });
+        };
+        callback({
+            insert: (location, value) => add(new Range(location, location), value),
+            delete: location => add(location, ""),
+            replace: (location, value) => add(location, value),
+        });
+        this.typing = false;
+        return Promise.resolve(this.applyEdits(edits));
+    }
+
+    public get visibleRanges(): Range[] {
+        return this.visible ? this.visible.slice() : [new Range(new Position(0, 0), this.document.positionAt(this.document.getText().length))];
+    }
+
+    public set visibleRanges(ranges: Range[]) {
+        this.visible = ranges;
+    }
+
+    public setDecorations(decorationType: DecorationType, ranges: Range[], labels?: string[]) {
+        this.decorations[decorationType.key] = ranges.slice();
+        if (labels)
+            this.labels[decorationType.key] = labels.slice();
+        else
+            delete this.labels[decorationType.key];
+    }
+
+    public revealRange(range: Range) {
+        // Nothing to scroll
+    }
+
+    public setCursorStyle(style: CursorStyle) {
+        this.cursorStyle = style;
+    }
+
+    public type(text: string) {
+        const wasTyping = this.typing;
+        const undoDepth = this.undoStack.length;
+        this.applyEdits(this.currentSelections.map(s => {
+            let inserted = text;
+            if (text === "\n") {
+                // Keep the indentation of the current line
+                const line = this.document.lineAt(s.start.line);
+                inserted += line.text.substr(0, line.firstNonWhitespaceCharacterIndex);
+            }
+            return {
+                start: this.document.offsetAt(s.start),
+                end: this.document.offsetAt(s.end),
+                text: inserted,
+            };
+        }));
+        if (wasTyping && this.undoStack.length > undoDepth)
+            this.undoStack.pop();
+        this.typing = true;
+    }
+
+    public undo(): boolean {
+        return this.restore(this.undoStack, this.redoStack);
+    }
+
+    public redo(): boolean {
+        return this.restore(this.redoStack, this.undoStack);
+    }
+
+    public applyEdits(edits: PendingEdit[]): boolean {
+        edits = edits.slice().sort((a, b) => b.start - a.start || b.end - a.end);
+        for (let i = 1; i < edits.length; i++) {
+            if (edits[i].end > edits[i - 1].start)
+                throw new Error("Overlapping ranges are not allowed!");
+        }
+        edits = edits.filter(e => e.start !== e.end || e.text.length > 0);
+        if (edits.length === 0)
+            return true;
+
+        this.undoStack.push({ text: this.document.getText(), selections: this.currentSelections });
+        if (this.host.undoLimit != null && this.undoStack.length > this.host.undoLimit)
+            this.undoStack.shift();
+        this.redoStack = [];
+
+        // The edits are applied from the end of the document backwards, so every change is also valid against the
+        // document as it was before any of them were applied.
+        const changes: TextDocumentContentChangeEvent[] = [];
+        let selectionOffsets = this.currentSelections.map(s => ({
+            anchor: this.document.offsetAt(s.anchor),
+            active: this.document.offsetAt(s.active),
+        }));
+        let text = this.document.getText();
+        for (const e of edits) {
+            changes.push({
+                range: new Range(this.document.positionAt(e.start), this.document.positionAt(e.end)),
+                rangeLength: e.end - e.start,
+                text: e.text,
+            });
+            text = text.substring(0, e.start) + e.text + text.substring(e.end);
+            const shift = (offset: number) => {
+                if (offset < e.start)
+                    return offset;
+                if (offset >= e.end)
+                    return offset + e.text.length - (e.end - e.start);
+                return e.start;
+            };
+            selectionOffsets = selectionOffsets.map(s => ({ anchor: shift(s.anchor), active: shift(s.active) }));
+        }
+        this.document.setText(text);
+
+        this.host.fireDocumentChanged({ document: this.document, contentChanges: changes });
+        this.updateSelections(selectionOffsets.map(s =>
+            new Selection(this.document.positionAt(s.anchor), this.document.positionAt(s.active))));
+        return true;
+    }
+
+    private restore(from: UndoState[], to: UndoState[]): boolean {
+        const state = from.pop();
+        if (!state)
+            return false;
+
+        to.push({ text: this.document.getText(), selections: this.currentSelections });
+        const oldText = this.document.getText();
+        const oldEnd = this.document.positionAt(oldText.length);
+        this.document.setText(state.text);
+        this.typing = false;
+        this.host.fireDocumentChanged({
+            document: this.document,
+            contentChanges: [{ range: new Range(new Position(0, 0), oldEnd), rangeLength: oldText.length, text: state.text }],
+        });
+        this.updateSelections(state.selections);
+        return true;
+    }
+
+    private updateSelections(selections: Selection[]) {
+        const changed = selections.length !== this.currentSelections.length ||
+            selections.some((s, i) => !s.anchor.isEqual(this.currentSelections[i].anchor) ||
+                !s.active.isEqual(this.currentSelections[i].active));
+        this.currentSelections = selections;
+        if (changed)
+            this.host.fireSelectionsChanged(this);
+    }
+}
+
+export class MemoryHost implements EditorHost {
+    public activeTextEditor: MemoryEditor;
+    public editors: MemoryEditor[];
+    public statusText: { [item: number]: string };
+    public contexts: { [key: string]: boolean };
+    // What editor.action.indentLines inserts
+    public indentation: string;
+    // How many edits each editor can undo, or null for no limit
+    public undoLimit: number;
+    // Every command that was passed through to the host, for inspection
+    public executedCommands: string[];
+    public clipboard: string;
+    // The lines last shown with showOutput
+    public output: string[];
+    private decorationCount: number;
+    private selectionChangePending: boolean;
+    private documentListeners: ((e: TextDocumentChangeEvent) => void)[];
+    private selectionListeners: ((selections: Selection[]) => void)[];
+    private activeEditorListeners: ((editor: TextEditor) => void)[];
+
+    public constructor(text?: string) {
+        this.editors = [];
+        this.statusText = {};
+        this.contexts = {};
+        this.indentation = "    ";
+        this.undoLimit = null;
+        this.executedCommands = [];
+        this.clipboard = "";
+        this.output = null;
+        this.decorationCount = 0;
+        this.selectionChangePending = false;
+        this.documentListeners = [];
+        this.selectionListeners = [];
+        this.activeEditorListeners = [];
+        this.activeTextEditor = null;
+        if (text != null)
+            this.open(text);
+    }
+
+    // Opens a new document and makes it the active editor.
+    public open(text: string, uri?: string): MemoryEditor {
+        const editor = new MemoryEditor(this, new MemoryDocument(text, uri || `memory://${this.editors.length + 1}`));
+        this.editors.push(editor);
+        this.setActiveTextEditor(editor);
+        return editor;
+    }
+
+    public setActiveTextEditor(editor: MemoryEditor) {
+        this.activeTextEditor = editor;
+        this.activeEditorListeners.forEach(l => l(editor));
+    }
+
+    public createDecorationType(options: DecorationOptions): DecorationType {
+        this.decorationCount++;
+        return { key: `decoration${this.decorationCount}` };
+    }
+
+    public setStatusText(item: StatusItem, text: string) {
+        this.statusText[item] = text;
+    }
+
+    public setContext(key: string, value: boolean) {
+        this.contexts[key] = value;
+    }
+
+    public readClipboard(): Promise<string> {
+        return Promise.resolve(this.clipboard);
+    }
+
+    public writeClipboard(text: string): Promise<void> {
+        this.clipboard = text;
+        return Promise.resolve();
+    }
+
+    public showOutput(lines: string[]) {
+        this.output = lines;
+    }
+
+    // Only documents that were opened can be shown again.
+    public showDocument(uri: string): Promise<TextEditor> {
+        const editor = this.editors.filter(e => e.document.uri === uri)[0];
+        if (editor && editor !== this.activeTextEditor)
+            this.setActiveTextEditor(editor);
+        return Promise.resolve(editor || null);
+    }
+
+    public executeCommand(command: string, ...rest: any[]): Promise<any> {
+        this.executedCommands.push(command);
+        const editor = this.activeTextEditor;
+        if (!editor)
+            return Promise.resolve();
+
+        const document = editor.document;
+        switch (command) {
+            case "default:type":
+                editor.type(rest[0].text);
+                break;
+
+            case "cursorLeft":
+            case "cursorRight":
+                const delta = command === "cursorLeft" ? -1 : 1;
+                editor.selections = editor.selections.map(s => {
+                    const position = document.positionAt(document.offsetAt(s.active) + delta);
+                    return new Selection(position, position);
+                });
+                break;
+
+            case "cursorUp":
+            case "cursorDown":
+                const lineDelta = command === "cursorUp" ? -1 : 1;
+                editor.selections = editor.selections.map(s => {
+                    const line = s.active.line + lineDelta;
+                    if (line < 0 || line >= document.lineCount)
+                        return new Selection(s.active, s.active);
+                    const position = document.validatePosition(new Position(line, s.active.character));
+                    return new Selection(position, position);
+                });
+                break;
+
+            case "cursorHome":
+                editor.selections = editor.selections.map(s => {
+                    const firstCharacter = document.lineAt(s.active.line).firstNonWhitespaceCharacterIndex;
+                    const position = new Position(s.active.line, s.active.character === firstCharacter ? 0 : firstCharacter);
+                    return new Selection(position, position);
+                });
+                break;
+
+            case "editor.action.insertLineAfter":
+            case "editor.action.insertLineBefore":
+                const after = command === "editor.action.insertLineAfter";
+                const lines = editor.selections.map(s => document.lineAt(s.active.line));
+                editor.applyEdits(lines.map(line => {
+                    const indent = line.text.substr(0, line.firstNonWhitespaceCharacterIndex);
+                    const offset = document.offsetAt(after ? line.range.end : line.range.start);
+                    return { start: offset, end: offset, text: after ? "\n" + indent : indent + "\n" };
+                }));
+                editor.selections = lines.map((line, i) => {
+                    const lineNumber = line.lineNumber + (after ? 1 : 0) + i;
+                    const position = document.lineAt(lineNumber).range.end;
+                    return new Selection(position, position);
+                });
+                break;
+
+            case "editor.action.indentLines":
+            case "editor.action.outdentLines":
+                const indent = command === "editor.action.indentLines";
+                const indentedLines: number[] = [];
+                for (const s of editor.selections) {
+                    // A selection that ends at the start of a line does not include it
+                    const lastLine = s.end.line > s.start.line && s.end.character === 0 ? s.end.line - 1 : s.end.line;
+                    for (let line = s.start.line; line <= lastLine; line++) {
+                        if (indentedLines.indexOf(line) === -1)
+                            indentedLines.push(line);
+                    }
+                }
+                editor.applyEdits(indentedLines.map(line => {
+                    const text = document.lineAt(line).text;
+                    const offset = document.offsetAt(new Position(line, 0));
+                    if (indent)
+                        return { start: offset, end: offset, text: text.length > 0 ? this.indentation : "" };
+                    const leading = /^(\t| {1,4})?/.exec(text)[0];
+                    return { start: offset, end: offset + leading.length, text: "" };
+                }));
+                break;
+
+            case "deleteLeft":
+                // Deletes the selection, or the character before an empty one
+                editor.applyEdits(editor.selections.map(s => {
+                    const end = document.offsetAt(s.end);
+                    return { start: s.isEmpty ? Math.max(end - 1, 0) : document.offsetAt(s.start), end, text: "" };
+                }));
+                break;
+
+            case "undo":
+                editor.undo();
+                break;
+
+            case "redo":
+                editor.redo();
+                break;
+
+            default:
+                break;
+        }
+        return Promise.resolve();
+    }
+
+    public onDidChangeTextDocument(listener: (e: TextDocumentChangeEvent) => void): Disposable {
+        return MemoryHost.subscribe(this.documentListeners, listener);
+    }
+
+    public onDidChangeSelections(listener: (selections: Selection[]) => void): Disposable {
+        return MemoryHost.subscribe(this.selectionListeners, listener);
+    }
+
+    public onDidChangeActiveTextEditor(listener: (editor: TextEditor) => void): Disposable {
+        return MemoryHost.subscribe(this.activeEditorListeners, listener);
+    }
+
+    public fireDocumentChanged(e: TextDocumentChangeEvent) {
+        this.documentListeners.forEach(l => l(e));
+    }
+
+    public fireSelectionsChanged(editor: MemoryEditor) {
+        // Like VS Code, selection changes are reported once the command that made them has finished, and several
+        // changes in a row are reported once. Callers should let the event loop run between keys, as typing does.
+        if (editor !== this.activeTextEditor || this.selectionChangePending)
+            return;
+        this.selectionChangePending = true;
+        setTimeout(() => {
+            this.selectionChangePending = false;
+            if (this.activeTextEditor)
+                this.selectionListeners.forEach(l => l(this.activeTextEditor.selections));
+        }, 0);
+    }
+
+    private static subscribe<T>(listeners: T[], listener: T): Disposable {
+        listeners.push(listener);
+        return {
+            dispose: () => {
+                const index = listeners.indexOf(listener);
+                if (index !== -1)
+                    listeners.splice(index, 1);
+            },
+        };
+    }
+}
@@ -1,4 +1,5 @@
 import { MotionAction, Motion, VimDocument, WordType } from "./common";
+import { isParagraphBoundary, sentenceStarts } from "./objects";
 
 export function calculateMotion(doc: VimDocument, motion: MotionAction, index: number): Motion {
     if (motion.motion === "line") {
@@ -11,12 +12,13 @@ export function calculateMotion(doc: VimDocument, motion: MotionAction, index: n
         };
     }
 
-    if (motion.motion === "jump") {
+    // A jump takes in the character it lands on when it goes forward, as f does, and not when it goes back, as F does
+    if (motion.motion === "jump" || motion.motion === "jumpLine") {
         return {
             start: index,
             end: motion.target,
-            inclusive: true,
-            linewise: false,
+            inclusive: motion.motion === "jump" && motion.target > index,
+            linewise: motion.motion === "jumpLine",
         };
     }
 
@@ -60,7 +62,7 @@ export function calculateMotion(doc: VimDocument, motion: MotionAction, index: n
     if (motion.motion === "j") {
         const initialPosition = doc.positionFromIndex(index);
         const count = Math.min(motion.count, doc.lineCount() - initialPosition.line - 1);
-        const position = initialPosition.translate(count, 0, false);
+        const position = initialPosition.translate(count, 0, true);
         if (!position) {
             return null;
         }
@@ -75,7 +77,7 @@ export function calculateMotion(doc: VimDocument, motion: MotionAction, index: n
     if (motion.motion === "k") {
         const initialPosition = doc.positionFromIndex(index);
         const count = Math.min(motion.count, initialPosition.line);
-        const position = initialPosition.translate(-count, 0, false);
+        const position = initialPosition.translate(-count, 0, true);
         if (!position) {
             return null;
         }
@@ -123,11 +125,14 @@ export function calculateMotion(doc: VimDocument, motion: MotionAction, index: n
 
     if (motion.motion === "w") {
         let endIndex = index;
+        // With no word left to move to, the motion takes in the rest of the text
+        let inclusive = false;
         for (let i = 0; i < motion.count; i++) {
             let currentWord = doc.getWord(endIndex);
             let nextWord = doc.getWord(currentWord.end + 1);
             if (!nextWord) {
                 endIndex = currentWord.end;
+                inclusive = true;
                 break;
             }
             endIndex = nextWord.end;
@@ -135,6 +140,7 @@ export function calculateMotion(doc: VimDocument, motion: MotionAction, index: n
                 nextWord = doc.getWord(nextWord.end + 1);
             }
             if (!nextWord) {
+                inclusive = true;
                 break;
             }
             endIndex = nextWord.start;
@@ -142,7 +148,7 @@ export function calculateMotion(doc: VimDocument, motion: MotionAction, index: n
         return {
             start: index,
             end: endIndex,
-            inclusive: false,
+            inclusive,
             linewise: false,
         };
     }
@@ -171,11 +177,14 @@ export function calculateMotion(doc: VimDocument, motion: MotionAction, index: n
 
     if (motion.motion === "W") {
         let endIndex = index;
+        // With no word left to move to, the motion takes in the rest of the text
+        let inclusive = false;
         for (let i = 0; i < motion.count; i++) {
             let currentWord = doc.getWORD(endIndex);
             let nextWord = doc.getWORD(currentWord.end + 1);
             if (!nextWord) {
                 endIndex = currentWord.end;
+                inclusive = true;
                 break;
             }
             endIndex = nextWord.end;
@@ -183,6 +192,7 @@ export function calculateMotion(doc: VimDocument, motion: MotionAction, index: n
                 nextWord = doc.getWORD(nextWord.end + 1);
             }
             if (!nextWord) {
+                inclusive = true;
                 break;
             }
             endIndex = nextWord.start;
@@ -190,7 +200,7 @@ export function calculateMotion(doc: VimDocument, motion: MotionAction, index: n
         return {
             start: index,
             end: endIndex,
-            inclusive: false,
+            inclusive,
             linewise: false,
         };
     }
@@ -362,6 +372,34 @@ export function calculateMotion(doc: VimDocument, motion: MotionAction, index: n
         };
     }
 
+    // { and } go to the empty line before or after a paragraph (:help paragraph)
+    if (motion.motion === "{" || motion.motion === "}")
+        return findParagraph(doc, index, motion.count, motion.motion === "}", "");
+
+    // [[ and ]] go to the line of a "{" in the first column, [] and ][ to one of a "}" (:help section)
+    if (motion.motion === "[[" || motion.motion === "]]" || motion.motion === "[]" || motion.motion === "][")
+        return findParagraph(doc, index, motion.count, motion.motion[0] === "]", motion.motion[0] === motion.motion[1] ? "{" : "}");
+
+    // ( and ) go to the start of a sentence (:help sentence)
+    if (motion.motion === "(" || motion.motion === ")") {
+        const text = doc.getText();
+        const forward = motion.motion === ")";
+        const starts = sentenceStarts(text).filter(start => forward ? start > index : start < index);
+        if (!forward)
+            starts.reverse();
+        // Past the last sentence is the end of the document, and before the first its start
+        let endIndex = starts.length >= motion.count ? starts[motion.count - 1] : forward ? text.length : 0;
+        if (endIndex === index)
+            return null;
+        const pastEnd = endIndex === text.length && endIndex > 0 && text[endIndex - 1] !== "\n";
+        return {
+            start: index,
+            end: pastEnd ? endIndex - 1 : endIndex,
+            inclusive: pastEnd,
+            linewise: false,
+        };
+    }
+
     if (motion.motion === "%") {
         // {count}% goes to a % of the file.
         if (motion.count) {
@@ -434,3 +472,44 @@ export function calculateMotion(doc: VimDocument, motion: MotionAction, index: n
         return null;
     }
 }
+
+// Whether a line starts a paragraph, when boundary is "", or a section, when it is the brace sections start with.
+// A form feed starts both.
+function startsParagraph(text: string, boundary: string): boolean {
+    return (boundary ? text.charAt(0) === boundary : isParagraphBoundary(text, false)) || text.charAt(0) === "\f";
+}
+
+// Goes count paragraphs or sections forward or back, as Vim does: to the next line that starts one after a line that
+// is not empty, or to the first or last line when there is none. Past the last one the motion ends on the last
+// character, which it takes in, unless it looks for a "}". There is no motion when the first or last line is reached
+// with some of the count left.
+function findParagraph(doc: VimDocument, index: number, count: number, forward: boolean, boundary: string): Motion {
+    const lineCount = doc.lineCount();
+    const direction = forward ? 1 : -1;
+    let line = doc.positionFromIndex(index).line;
+    for (let i = 0; i < count; i++) {
+        let skipped = false;
+        for (let first = true; ; first = false) {
+            const text = doc.getLine(line).text;
+            if (!isParagraphBoundary(text, false))
+                skipped = true;
+            if (!first && skipped && startsParagraph(text, boundary))
+                break;
+            line += direction;
+            if (line < 0 || line >= lineCount) {
+                if (i < count - 1)
+                    return null;
+                line -= direction;
+                break;
+            }
+        }
+    }
+    const length = doc.getLine(line).text.length;
+    const lastCharacter = line === lineCount - 1 && boundary !== "}" && length > 0;
+    return {
+        start: index,
+        end: doc.positionFromLine(line, lastCharacter ? length - 1 : 0).index,
+        inclusive: lastCharacter,
+        linewise: false,
+    };
+}
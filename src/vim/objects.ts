@@ -0,0 +1,408 @@
+import { Motion, ObjectAction, Range, VimDocument } from "./common";
+
+// Text objects (:help text-objects). Each takes the text, the index of the cursor, whether the object is an "a" one
+// rather than an "i" one and a count, and returns the range it covers with an exclusive end, or null when there is no
+// such object. In a Visual mode, selected is the selection the object grows.
+
+// The opening and closing character of the pairs bracket objects are made of, by the object's key
+const brackets: { [key: string]: string } = {
+    "(": "()", ")": "()", b: "()",
+    "[": "[]", "]": "[]",
+    "{": "{}", "}": "{}", B: "{}",
+    "<": "<>", ">": "<>",
+};
+
+// The range the object typed as object covers around index.
+export function calculateObject(doc: VimDocument, object: ObjectAction, index: number, selected: Range): Motion {
+    const around = object.range === "a";
+    if (selected && selected.end <= selected.start)
+        selected = null;
+    switch (object.object) {
+        case "w":
+        case "W":
+            const word = object.object === "w" ? doc.getWord(index) : doc.getWORD(index);
+            return word ? { start: word.start, end: word.end, linewise: false, inclusive: true } : null;
+        case "s":
+            return sentenceObject(doc.getText(), index, around, object.count, selected);
+        case "p":
+            return paragraphObject(doc.getText(), index, around, object.count, selected);
+        case "t":
+            return tagObject(doc.getText(), index, around, object.count, selected);
+        case '"':
+        case "'":
+        case "`":
+            return quoteObject(doc.getText(), index, object.object, around, object.count);
+        default:
+            const pair = brackets[object.object];
+            return pair ? bracketObject(doc.getText(), index, pair[0], pair[1], around, object.count, selected) : null;
+    }
+}
+
+// Where the open character is that the close character at or before from, if any, does not pair up with.
+function unmatchedOpen(text: string, from: number, open: string, close: string): number {
+    let depth = 0;
+    for (let i = from; i >= 0; i--) {
+        if (text[i] === close) {
+            depth++;
+        } else if (text[i] === open) {
+            if (depth === 0)
+                return i;
+            depth--;
+        }
+    }
+    return -1;
+}
+
+// Where the close character is that pairs up with the open character before from.
+function matchingClose(text: string, from: number, open: string, close: string): number {
+    let depth = 0;
+    for (let i = from; i < text.length; i++) {
+        if (text[i] === open) {
+            depth++;
+        } else if (text[i] === close) {
+            if (depth === 0)
+                return i;
+            depth--;
+        }
+    }
+    return -1;
+}
+
+// i( and a( and the other brackets (:help a(): the count'th pair around the cursor, counting nested pairs, without or
+// with the brackets. On a bracket, the pair it is part of. In a Visual mode the pair around the selection, so that
+// typing it again selects the one around that. After an operator, the inside of a pair whose open bracket ends its line
+// and whose close bracket starts its own, after any indent, is the lines in between.
+function bracketObject(text: string, index: number, open: string, close: string, around: boolean, count: number, selected: Range): Motion {
+    let start = text[index] === open ? index : unmatchedOpen(text, text[index] === close ? index - 1 : index, open, close);
+    for (;;) {
+        const end = start === -1 ? -1 : matchingClose(text, start + 1, open, close);
+        if (end === -1)
+            return null;
+        const range = around ? { start, end: end + 1 } : { start: start + 1, end };
+        const grows = !selected || (range.start <= selected.start && range.end >= selected.end &&
+            range.end - range.start > selected.end - selected.start);
+        if (grows && --count === 0) {
+            const closeLineStart = text.lastIndexOf("\n", end - 1) + 1;
+            if (!around && !selected && text[start + 1] === "\n" && closeLineStart > start + 2 && /^[ \t]*$/.test(text.substring(closeLineStart, end)))
+                return { start: start + 2, end: text.lastIndexOf("\n", closeLineStart - 2) + 1, linewise: true, inclusive: false };
+            return { start: range.start, end: range.end, linewise: false, inclusive: false };
+        }
+        start = unmatchedOpen(text, start - 1, open, close);
+    }
+}
+
+// i" and a" and the other quotes (:help a"). Quotes pair up from the start of the line, skipping those escaped with a
+// backslash. When the cursor is not between two quotes the next quoted text on the line is taken. a" takes the white
+// space after the quotes, or before them when there is none; 2i" takes the quotes without white space.
+function quoteObject(text: string, index: number, quote: string, around: boolean, count: number): Motion {
+    const lineStart = text.lastIndexOf("\n", index - 1) + 1;
+    const lineEnd = text.indexOf("\n", index) === -1 ? text.length : text.indexOf("\n", index);
+    const quotes: number[] = [];
+    for (let i = lineStart; i < lineEnd; i++) {
+        if (text[i] === "\\")
+            i++;
+        else if (text[i] === quote)
+            quotes.push(i);
+    }
+
+    let pair = -1;
+    for (let i = 0; i + 1 < quotes.length && pair === -1; i += 2) {
+        if (quotes[i] <= index && index <= quotes[i + 1])
+            pair = i;
+    }
+    if (pair === -1) {
+        for (let i = 0; i + 1 < quotes.length && pair === -1; i += 2) {
+            if (quotes[i] > index)
+                pair = i;
+        }
+    }
+    if (pair === -1)
+        return null;
+
+    let start = quotes[pair];
+    let end = quotes[pair + 1] + 1;
+    if (!around)
+        return count > 1 ? { start, end, linewise: false, inclusive: false } : { start: start + 1, end: end - 1, linewise: false, inclusive: false };
+    const trailing = /^[ \t]*/.exec(text.substring(end, lineEnd))[0].length;
+    if (trailing > 0)
+        end += trailing;
+    else
+        start -= /[ \t]*$/.exec(text.substring(lineStart, start))[0].length;
+    return { start, end, linewise: false, inclusive: false };
+}
+
+// A sentence or the white space between two sentences
+interface SentencePiece {
+    start: number;
+    end: number;
+    white: boolean;
+}
+
+// Whether a line ends a paragraph (:help paragraph): an empty line, or for the paragraph objects, with blankLines set,
+// a line of only white space as well. The paragraph and sentence motions use it too.
+export function isParagraphBoundary(line: string, blankLines: boolean): boolean {
+    return blankLines ? /^\s*$/.test(line) : line.length === 0;
+}
+
+// Where the sentence starting at start ends: after a '.', '!' or '?' and any closing brackets and quotes that are
+// followed by white space, or at the end of the paragraph (:help sentence).
+function sentenceEnd(text: string, start: number): number {
+    for (let i = start; i < text.length; i++) {
+        if (/[.!?]/.test(text[i])) {
+            let end = i + 1;
+            while (end < text.length && /[)\]"']/.test(text[end]))
+                end++;
+            if (end === text.length || /\s/.test(text[end]))
+                return end;
+            i = end - 1;
+        } else if (text[i] === "\n") {
+            const next = text.indexOf("\n", i + 1);
+            if (isParagraphBoundary(text.substring(i + 1, next === -1 ? text.length : next), false))
+                return i;
+        }
+    }
+    return text.length;
+}
+
+// Splits the text into sentences and the white space between them.
+function sentencePieces(text: string): SentencePiece[] {
+    const pieces: SentencePiece[] = [];
+    let i = 0;
+    while (i < text.length) {
+        let end = i;
+        if (/\s/.test(text[i])) {
+            while (end < text.length && /\s/.test(text[end]))
+                end++;
+        } else {
+            end = sentenceEnd(text, i);
+        }
+        pieces.push({ start: i, end, white: /\s/.test(text[i]) });
+        i = end;
+    }
+    return pieces;
+}
+
+// Where the sentences of the text start, for ( and ): at each sentence, and at the first of each run of empty lines
+// after a line that is not, which is a sentence of its own.
+export function sentenceStarts(text: string): number[] {
+    const emptyLine = (i: number) => i >= 0 && text[i] === "\n" && (i === 0 || text[i - 1] === "\n");
+    const starts: number[] = [];
+    for (const piece of sentencePieces(text)) {
+        if (!piece.white) {
+            starts.push(piece.start);
+            continue;
+        }
+        for (let i = piece.start; i < piece.end; i++) {
+            if (emptyLine(i) && !emptyLine(i - 1))
+                starts.push(i);
+        }
+    }
+    return starts;
+}
+
+// White space that ends a paragraph is not part of the sentences around it
+function endsParagraph(text: string, piece: SentencePiece): boolean {
+    return !piece || /\n\n/.test(text.substring(piece.start, piece.end)) || piece.end === text.length;
+}
+
+// is and as (:help sentence). For is, the white space between sentences counts as a sentence. as takes the white
+// space after the sentences, or before them when there is none, and from white space the sentences after it.
+function sentenceObject(text: string, index: number, around: boolean, count: number, selected: Range): Motion {
+    const pieces = sentencePieces(text);
+    if (selected && selected.end > selected.start)
+        index = selected.end;
+    if (index >= text.length)
+        return null;
+    let first = 0;
+    while (pieces[first].end <= index)
+        first++;
+
+    let last = first;
+    if (!around) {
+        last = first + count - 1;
+    } else {
+        // The sentences, with the white space between them
+        let sentences = pieces[first].white ? 0 : 1;
+        while (sentences < count && last < pieces.length - 1) {
+            last++;
+            if (!pieces[last].white)
+                sentences++;
+        }
+        if (sentences < count)
+            return null;
+        if (!pieces[first].white) {
+            if (!endsParagraph(text, pieces[last + 1]))
+                last++;
+            else if (first > 0 && !endsParagraph(text, pieces[first - 1]))
+                first--;
+        }
+    }
+    if (last >= pieces.length)
+        return null;
+
+    const start = selected && selected.end > selected.start ? Math.min(selected.start, pieces[first].start) : pieces[first].start;
+    return { start, end: pieces[last].end, linewise: false, inclusive: false };
+}
+
+// ip and ap (:help paragraph). A paragraph ends at a blank line and for ip a run of blank lines counts as a paragraph.
+// ap takes the blank lines after the paragraphs, or before them when there are none, and from blank lines the
+// paragraphs after them. The object is linewise, its end is on its last line.
+function paragraphObject(text: string, index: number, around: boolean, count: number, selected: Range): Motion {
+    const lines = text.split("\n");
+    const lineStarts: number[] = [];
+    let offset = 0;
+    for (const line of lines) {
+        lineStarts.push(offset);
+        offset += line.length + 1;
+    }
+    const lineAt = (i: number) => {
+        let line = 0;
+        while (line < lines.length - 1 && lineStarts[line + 1] <= i)
+            line++;
+        return line;
+    };
+    const isBlank = (line: string) => isParagraphBoundary(line, true);
+    // The last line of the run of blank or non-blank lines that starts at line
+    const runEnd = (line: number) => {
+        const blank = isBlank(lines[line]);
+        while (line < lines.length - 1 && isBlank(lines[line + 1]) === blank)
+            line++;
+        return line;
+    };
+
+    let first: number;
+    if (selected && selected.end > selected.start) {
+        // Growing the selection, from the line after it
+        first = lineAt(selected.end - 1) + 1;
+        if (first === lines.length)
+            return null;
+    } else {
+        first = lineAt(index);
+        while (first > 0 && isBlank(lines[first - 1]) === isBlank(lines[first]))
+            first--;
+    }
+
+    let last = first - 1;
+    if (!around) {
+        for (let i = 0; i < count; i++) {
+            if (last === lines.length - 1)
+                return null;
+            last = runEnd(last + 1);
+        }
+    } else {
+        const startsBlank = isBlank(lines[first]);
+        for (let i = 0; i < count; i++) {
+            if (last === lines.length - 1)
+                return null;
+            last = runEnd(last + 1);
+            // A paragraph takes the blank lines after it, blank lines the paragraph after them
+            if (last < lines.length - 1)
+                last = runEnd(last + 1);
+            else if (!startsBlank && i === count - 1)
+                while (first > 0 && isBlank(lines[first - 1]))
+                    first--;
+        }
+    }
+
+    const start = selected && selected.end > selected.start ? Math.min(selected.start, lineStarts[first]) : lineStarts[first];
+    return { start, end: lineStarts[last], linewise: true, inclusive: false };
+}
+
+// A tag in the text, from its '<' to after its '>'
+interface Tag {
+    start: number;
+    end: number;
+    name: string;
+    closing: boolean;
+    selfClosing: boolean;
+}
+
+// An element: the range of its start tag and of its end tag
+interface Element {
+    open: Range;
+    close: Range;
+}
+
+// Finds the tags in the text, including the <> and </> of JSX fragments. Attribute values in quotes or in braces, as
+// in JSX, may hold a '>'.
+function findTags(text: string): Tag[] {
+    const tags: Tag[] = [];
+    const tagStart = /<(\/?)(?:([A-Za-z][\w:.\-]*)(?=[\s>\/])|(?=>))|<!--/g;
+    let match: RegExpExecArray;
+    /* tslint:disable */
+    while (match = tagStart.exec(text)) {
+    /* tslint:enable */
+        if (match[0] === "<!--") {
+            const commentEnd = text.indexOf("-->", tagStart.lastIndex);
+            if (commentEnd === -1)
+                break;
+            tagStart.lastIndex = commentEnd + 3;
+            continue;
+        }
+        let i = tagStart.lastIndex;
+        let quote: string = null;
+        let braces = 0;
+        for (; i < text.length; i++) {
+            const c = text[i];
+            if (quote) {
+                if (c === quote)
+                    quote = null;
+            } else if (c === '"' || c === "'") {
+                quote = c;
+            } else if (c === "{") {
+                braces++;
+            } else if (c === "}") {
+                braces--;
+            } else if ((c === ">" && braces <= 0) || c === "<") {
+                break;
+            }
+        }
+        if (i === text.length || text[i] === "<")
+            continue;
+        tags.push({
+            start: match.index,
+            end: i + 1,
+            name: match[2] || "",
+            closing: match[1] === "/",
+            selfClosing: match[1] !== "/" && text[i - 1] === "/",
+        });
+        tagStart.lastIndex = i + 1;
+    }
+    return tags;
+}
+
+// Pairs up start tags with the end tags that close them. A start tag that is never closed is left out.
+function findElements(text: string): Element[] {
+    const elements: Element[] = [];
+    const open: Tag[] = [];
+    for (const tag of findTags(text)) {
+        if (tag.selfClosing)
+            continue;
+        if (!tag.closing) {
+            open.push(tag);
+            continue;
+        }
+        let i = open.length - 1;
+        while (i >= 0 && open[i].name !== tag.name)
+            i--;
+        if (i >= 0) {
+            elements.push({ open: { start: open[i].start, end: open[i].end }, close: { start: tag.start, end: tag.end } });
+            open.length = i;
+        }
+    }
+    return elements;
+}
+
+// it and at (:help tag-blocks): the count'th element around the cursor, without or with its tags. In a Visual mode
+// the element around the selection, so that typing it again selects the one around that.
+function tagObject(text: string, index: number, around: boolean, count: number, selected: Range): Motion {
+    const grow = selected && selected.end > selected.start;
+    const enclosing = findElements(text)
+        .filter(e => e.open.start <= index && index < e.close.end)
+        .sort((a, b) => (a.close.end - a.open.start) - (b.close.end - b.open.start));
+    const ranges = enclosing
+        .map(e => around ? { start: e.open.start, end: e.close.end } : { start: e.open.end, end: e.close.start })
+        .filter(r => !grow || (r.start <= selected.start && r.end >= selected.end && r.end - r.start > selected.end - selected.start));
+    const range = ranges[count - 1];
+    return range ? { start: range.start, end: range.end, linewise: false, inclusive: false } : null;
+}
@@ -0,0 +1,465 @@
+import { wordCharacterClass } from "./common";
+
+// Translates Vim's regular expression dialect (:help pattern) to JavaScript regular expressions. Every pattern the
+// user types, for searches, :s and :g, is compiled here.
+
+enum Magic {
+    VeryMagic,
+    Magic,
+    NoMagic,
+    VeryNoMagic,
+}
+
+// The characters that have a special meaning without a backslash in each mode. The others from specialCharacters
+// need a backslash; in very magic mode a backslash makes them literal.
+const specialCharacters = "()|+?={@%<>&.*[~^$";
+const unescapedSpecial: { [magic: number]: string } = {
+    [Magic.VeryMagic]: specialCharacters,
+    [Magic.Magic]: ".*[~^$",
+    [Magic.NoMagic]: "^$",
+    [Magic.VeryNoMagic]: "",
+};
+
+// The character classes \s, \d, \w..., as the characters in them and whether they are negated. \_x adds end-of-line.
+const characterClasses: { [name: string]: { set: string, negated: boolean } } = {
+    s: { set: " \\t", negated: false },
+    S: { set: " \\t", negated: true },
+    d: { set: "0-9", negated: false },
+    D: { set: "0-9", negated: true },
+    w: { set: "0-9A-Za-z_", negated: false },
+    W: { set: "0-9A-Za-z_", negated: true },
+    a: { set: "A-Za-z", negated: false },
+    A: { set: "A-Za-z", negated: true },
+    l: { set: "a-z", negated: false },
+    L: { set: "a-z", negated: true },
+    u: { set: "A-Z", negated: false },
+    U: { set: "A-Z", negated: true },
+    x: { set: "0-9A-Fa-f", negated: false },
+    X: { set: "0-9A-Fa-f", negated: true },
+    o: { set: "0-7", negated: false },
+    O: { set: "0-7", negated: true },
+    h: { set: "A-Za-z_", negated: false },
+    H: { set: "A-Za-z_", negated: true },
+    // Identifier and keyword characters are the word characters of motions and objects
+    i: { set: wordCharacterClass, negated: false },
+    I: { set: wordCharacterClass, negated: true },
+    k: { set: wordCharacterClass, negated: false },
+    K: { set: wordCharacterClass, negated: true },
+};
+
+// The [:name:] classes of collections.
+const namedClasses: { [name: string]: string } = {
+    alnum: "0-9A-Za-z",
+    alpha: "A-Za-z",
+    blank: " \\t",
+    cntrl: "\\x00-\\x1f\\x7f",
+    digit: "0-9",
+    lower: "a-z",
+    punct: "!-/:-@\\[-`{-~",
+    space: " \\t\\n\\v\\f\\r",
+    upper: "A-Z",
+    xdigit: "0-9A-Fa-f",
+    return: "\\r",
+    tab: "\\t",
+    escape: "\\x1b",
+    backspace: "\\x08",
+};
+
+// Characters written with a backslash: \b (backspace), \e, \t, \r and \n.
+const escapedCharacters: { [name: string]: string } = {
+    b: "\\x08",
+    e: "\\x1b",
+    t: "\\t",
+    r: "\\r",
+    n: "\\n",
+};
+
+// One piece of the translated pattern. Only atoms can be followed by a multi such as * or \{n,m}.
+interface Piece {
+    source: string;
+    atom: boolean;
+}
+
+// A group being translated, or the whole pattern.
+interface Group {
+    pieces: Piece[];
+    open: string;
+    // Where \zs and \ze were, as indexes into pieces
+    matchStart: number;
+    matchEnd: number;
+}
+
+export interface TranslatedPattern {
+    source: string;
+    ignoreCase: boolean;
+    // Whether the first group of source is the text before \zs, which is not part of the match
+    prefixed: boolean;
+}
+
+// A regular expression whose first group is text that has to come before a match without being part of it, as a
+// lookbehind would, which the JavaScript engine of older versions of VS Code does not have. exec leaves the group out
+// of the match and its groups.
+export class PrefixedRegExp extends RegExp {
+    public exec(text: string): RegExpExecArray {
+        const match = super.exec(text);
+        if (!match)
+            return match;
+        const prefix = match[1] || "";
+        match.index += prefix.length;
+        match[0] = match[0].substring(prefix.length);
+        match.splice(1, 1);
+        // What steps over an empty match steps to where it is, as the prefix already took the text before it
+        if (match[0].length === 0 && prefix.length > 0)
+            this.lastIndex--;
+        return match;
+    }
+}
+
+export function translatePattern(pattern: string): TranslatedPattern {
+    let magic = Magic.Magic;
+    let ignoreCase: boolean = null;
+    const groups: Group[] = [{ pieces: [], open: null, matchStart: -1, matchEnd: -1 }];
+    const group = () => groups[groups.length - 1];
+    const push = (source: string, atom: boolean) => group().pieces.push({ source, atom });
+    // Whether a ^ here would be at the start of a branch, where it matches start-of-line
+    const atBranchStart = () => {
+        const pieces = group().pieces;
+        return pieces.length === 0 || pieces[pieces.length - 1].source === "|";
+    };
+    // Whether a $ ending at i would be at the end of a branch, where it matches end-of-line
+    const atBranchEnd = (i: number) => {
+        const rest = pattern.substr(i);
+        if (rest.length === 0 || rest.substr(0, 2) === "\\n")
+            return true;
+        return magic === Magic.VeryMagic ? /^[|)]/.test(rest) : /^\\[|)]/.test(rest);
+    };
+    // Every atom is a single JavaScript atom, so a multi can follow it as it is
+    const applyMulti = (multi: string, name: string) => {
+        const pieces = group().pieces;
+        const last = pieces[pieces.length - 1];
+        if (!last || !last.atom)
+            throw new Error(`E64: ${name} follows nothing`);
+        last.source += multi;
+        last.atom = false;
+    };
+
+    for (let i = 0; i < pattern.length; i++) {
+        let c = pattern[i];
+        let special: boolean;
+        if (c === "\\") {
+            i++;
+            if (i >= pattern.length)
+                throw new Error("E10: \\ should be followed by /, ? or &");
+            c = pattern[i];
+            if (specialCharacters.indexOf(c) !== -1) {
+                special = magic === Magic.VeryMagic ? false : unescapedSpecial[magic].indexOf(c) === -1;
+            } else {
+                const escape = translateEscape(pattern, i);
+                switch (escape.kind) {
+                    case "magic":
+                        magic = { v: Magic.VeryMagic, m: Magic.Magic, M: Magic.NoMagic, V: Magic.VeryNoMagic }[c];
+                        break;
+                    case "case":
+                        ignoreCase = c === "c" || ignoreCase === true;
+                        break;
+                    case "matchStart":
+                    case "matchEnd":
+                        if (groups.length > 1)
+                            throw new Error(`\\z${pattern[i + 1]} is not supported inside a group`);
+                        if (escape.kind === "matchStart")
+                            group().matchStart = group().pieces.length;
+                        else
+                            group().matchEnd = group().pieces.length;
+                        break;
+                    case "anchor":
+                        push(escape.source, false);
+                        break;
+                    case "collection":
+                        const collection = translateCollection(pattern, i + 2, true);
+                        if (!collection)
+                            throw new Error("E769: Missing ] after \\_[");
+                        push(collection.source, true);
+                        i = collection.end;
+                        continue;
+                    default:
+                        push(escape.source, true);
+                }
+                i += escape.length - 1;
+                continue;
+            }
+        } else {
+            special = specialCharacters.indexOf(c) !== -1 && unescapedSpecial[magic].indexOf(c) !== -1;
+            // After \V, ^ still matches start-of-line at the start of a branch
+            if (c === "^" && magic === Magic.VeryNoMagic && atBranchStart())
+                special = true;
+        }
+
+        if (!special) {
+            push(escapeLiteral(c), true);
+            continue;
+        }
+
+        switch (c) {
+            case "^":
+                if (atBranchStart())
+                    push("^", false);
+                else
+                    push("\\^", true);
+                break;
+            case "$":
+                if (atBranchEnd(i + 1))
+                    push("$", false);
+                else
+                    push("\\$", true);
+                break;
+            case ".":
+                push("[^\\n]", true);
+                break;
+            case "[":
+                const collection = translateCollection(pattern, i + 1, false);
+                if (collection) {
+                    push(collection.source, true);
+                    i = collection.end;
+                } else {
+                    // Without a closing ] it is a literal [
+                    push("\\[", true);
+                }
+                break;
+            case "*":
+                if (atBranchStart())
+                    push("\\*", true);
+                else
+                    applyMulti("*", "*");
+                break;
+            case "+":
+                applyMulti("+", "\\+");
+                break;
+            case "=":
+            case "?":
+                applyMulti("?", "\\" + c);
+                break;
+            case "{":
+                const close = pattern.indexOf("}", i);
+                if (close === -1)
+                    throw new Error("E554: Syntax error in \\{...}");
+                applyMulti(translateRepetition(pattern.substring(i + 1, close).replace(/\\$/, "")), "\\{");
+                i = close;
+                break;
+            case "@":
+                const lookaround = /^(=|!|<=|<!|>)/.exec(pattern.substr(i + 1));
+                if (!lookaround)
+                    throw new Error("E64: \\@ follows nothing");
+                if (lookaround[1] === ">")
+                    throw new Error("\\@> is not supported");
+                const pieces = group().pieces;
+                const last = pieces[pieces.length - 1];
+                if (!last || !last.atom)
+                    throw new Error("E64: \\@ follows nothing");
+                last.source = `(?${lookaround[1]}${last.source})`;
+                last.atom = false;
+                i += lookaround[1].length;
+                break;
+            case "(":
+                groups.push({ pieces: [], open: "\\(", matchStart: -1, matchEnd: -1 });
+                break;
+            case ")":
+                if (groups.length === 1)
+                    throw new Error("E55: Unmatched \\)");
+                const closed = groups.pop();
+                push((closed.open === "\\(" ? "(" : "(?:") + closed.pieces.map(p => p.source).join("") + ")", true);
+                break;
+            case "|":
+                push("|", false);
+                break;
+            case "%":
+                // The \% items that are not atoms of their own, \%( and \%d123, are handled with the other escapes
+                const item = translateEscape(pattern, i);
+                if (item.kind === "group") {
+                    groups.push({ pieces: [], open: "\\%(", matchStart: -1, matchEnd: -1 });
+                } else {
+                    push(item.source, true);
+                }
+                i += item.length - 1;
+                break;
+            case "<":
+                push(`\\b(?=${wordCharacterClass})`, false);
+                break;
+            case ">":
+                push(`\\b(?!${wordCharacterClass})`, false);
+                break;
+            case "~":
+                throw new Error("~ (the last substitute string) is not supported in patterns");
+            case "&":
+                throw new Error("\\& is not supported in patterns");
+            default:
+                push(escapeLiteral(c), true);
+        }
+    }
+
+    if (groups.length > 1)
+        throw new Error(group().open === "\\(" ? "E54: Unmatched \\(" : "E53: Unmatched \\%(");
+
+    const top = groups[0];
+    if ((top.matchStart !== -1 || top.matchEnd !== -1) && top.pieces.some(p => p.source === "|"))
+        throw new Error("\\zs and \\ze are not supported with \\|");
+    const sources = top.pieces.map(p => p.source);
+    const matchEnd = top.matchEnd === -1 ? sources.length : top.matchEnd;
+    const matchStart = top.matchStart === -1 ? 0 : Math.min(top.matchStart, matchEnd);
+    let source = sources.slice(matchStart, matchEnd).join("");
+    if (matchStart > 0)
+        source = `(${sources.slice(0, matchStart).join("")})` + source;
+    if (matchEnd < sources.length)
+        source += `(?=${sources.slice(matchEnd).join("")})`;
+    // The group of the text before \zs comes first, so the back references count one more group
+    if (matchStart > 0)
+        source = source.replace(/\\([\s\S])/g, (escape, c) => /[1-9]/.test(c) ? "\\" + (Number(c) + 1) : escape);
+
+    return { source, ignoreCase: !!ignoreCase, prefixed: matchStart > 0 };
+}
+
+// Compiles a Vim pattern to a global, multiline regular expression. Throws an Error with a message for the user when
+// it is not valid or uses something that cannot be translated.
+export function compilePattern(pattern: string): RegExp {
+    const translated = translatePattern(pattern);
+    try {
+        const flags = translated.ignoreCase ? "gmi" : "gm";
+        return translated.prefixed ? new PrefixedRegExp(translated.source, flags) : new RegExp(translated.source, flags);
+    } catch (e) {
+        throw new Error(`E383: Invalid search string: ${pattern}`);
+    }
+}
+
+// Escapes text so it is matched literally by a (magic) pattern.
+export function escapePattern(text: string): string {
+    return text.replace(/[\\\/.*$^~\[\]]/g, "\\$&");
+}
+
+function escapeLiteral(c: string): string {
+    return c.replace(/[\\^$.*+?()[\]{}|\/]/g, "\\$&");
+}
+
+// Translates the backslash item whose letter is at index i, other than the special characters. length is how many
+// characters of the pattern it took, from the letter on.
+function translateEscape(pattern: string, i: number): { kind: string, source?: string, length: number } {
+    const c = pattern[i];
+    if (/^[vmMV]$/.test(c))
+        return { kind: "magic", length: 1 };
+    if (c === "c" || c === "C")
+        return { kind: "case", length: 1 };
+    if (/^[1-9]$/.test(c))
+        return { kind: "atom", source: "\\" + c, length: 1 };
+    if (escapedCharacters.hasOwnProperty(c))
+        return { kind: "atom", source: escapedCharacters[c], length: 1 };
+    if (characterClasses.hasOwnProperty(c))
+        return { kind: "atom", source: classSource(characterClasses[c], false), length: 1 };
+
+    const next = pattern[i + 1];
+    if (c === "z") {
+        if (next === "s")
+            return { kind: "matchStart", length: 2 };
+        if (next === "e")
+            return { kind: "matchEnd", length: 2 };
+        throw new Error(`\\z${next || ""} is not supported in patterns`);
+    }
+
+    if (c === "_") {
+        if (next && characterClasses.hasOwnProperty(next))
+            return { kind: "atom", source: classSource(characterClasses[next], true), length: 2 };
+        if (next === ".")
+            return { kind: "atom", source: "[^]", length: 2 };
+        if (next === "^")
+            return { kind: "anchor", source: "^", length: 2 };
+        if (next === "$")
+            return { kind: "anchor", source: "$", length: 2 };
+        if (next === "[")
+            return { kind: "collection", length: 1 };
+        throw new Error(`E63: Invalid use of \\_${next || ""}`);
+    }
+
+    if (c === "%") {
+        if (next === "(")
+            return { kind: "group", length: 2 };
+        const code = /^([dxuUo])([0-9A-Fa-f]+)/.exec(pattern.substr(i + 1));
+        if (code) {
+            const base = { d: 10, o: 8 }[code[1]] || 16;
+            return { kind: "atom", source: escapeLiteral(String.fromCharCode(parseInt(code[2], base))), length: 1 + code[0].length };
+        }
+        throw new Error(`\\%${next || ""} is not supported in patterns`);
+    }
+
+    // Letters are reserved for items such as \f and \p, any other escaped character stands for itself
+    if (/^[A-Za-z]$/.test(c))
+        throw new Error(`\\${c} is not supported in patterns`);
+    return { kind: "atom", source: escapeLiteral(c), length: 1 };
+}
+
+function classSource(characterClass: { set: string, negated: boolean }, endOfLine: boolean): string {
+    if (characterClass.negated)
+        return `[^${characterClass.set}${endOfLine ? "" : "\\n"}]`;
+    return `[${characterClass.set}${endOfLine ? "\\n" : ""}]`;
+}
+
+// Translates the collection [...] whose contents start at start. end is the index of its closing ], and null is
+// returned when there is none.
+function translateCollection(pattern: string, start: number, endOfLine: boolean): { source: string, end: number } {
+    let i = start;
+    const negated = pattern[i] === "^";
+    if (negated)
+        i++;
+    let set = "";
+    // A ] first in the collection is one of its characters
+    if (pattern[i] === "]") {
+        set += "\\]";
+        i++;
+    }
+    for (; i < pattern.length; i++) {
+        const c = pattern[i];
+        if (c === "]") {
+            if (endOfLine !== negated)
+                set += "\\n";
+            return { source: `[${negated ? "^" : ""}${set}]`, end: i };
+        }
+        if (c === "[") {
+            const named = /^\[:([a-z]+):\]/.exec(pattern.substr(i));
+            if (named) {
+                if (!namedClasses.hasOwnProperty(named[1]))
+                    throw new Error(`[:${named[1]}:] is not supported in patterns`);
+                set += namedClasses[named[1]];
+                i += named[0].length - 1;
+            } else {
+                set += "\\[";
+            }
+        } else if (c === "\\") {
+            const next = pattern[i + 1];
+            if (next && "\\]^-".indexOf(next) !== -1) {
+                set += "\\" + next;
+                i++;
+            } else if (next && escapedCharacters.hasOwnProperty(next)) {
+                set += escapedCharacters[next];
+                i++;
+            } else {
+                // A backslash before anything else is literal
+                set += "\\\\";
+            }
+        } else {
+            set += c;
+        }
+    }
+    return null;
+}
+
+// Translates the inside of \{...} to a JavaScript quantifier.
+function translateRepetition(inside: string): string {
+    const match = /^(-?)(\d*)(,?)(\d*)$/.exec(inside);
+    if (!match)
+        throw new Error("E554: Syntax error in \\{...}");
+    const [, lazy, min, comma, max] = match;
+    let quantifier: string;
+    if (!comma)
+        quantifier = min ? `{${min}}` : "*";
+    else if (!min && !max)
+        quantifier = "*";
+    else
+        quantifier = `{${min || "0"},${max}}`;
+    return quantifier + (lazy ? "?" : "");
+}
@@ -0,0 +1,157 @@
+import { EditorHost } from "./editor";
+
+export interface VimRegister {
+    linewise: boolean;
+    // Yanked from Visual Block mode, each line of text is put at the same column
+    blockwise?: boolean;
+    text: string;
+}
+
+// What the registers hold apart from the clipboard, as saved to give each of several cursors registers of its own
+export interface RegisterState {
+    values: { [name: string]: VimRegister };
+    unnamed: string;
+}
+
+// The registers Vim keeps the text of, in the order :registers lists them
+const registerNames = '"0123456789abcdefghijklmnopqrstuvwxyz-*+.:%/';
+// The registers only Vim itself sets: the last inserted text, the last command line, the file name and the last
+// search pattern
+const readOnlyNames = ".:%/";
+
+function withLineBreak(text: string): string {
+    return /\n$/.test(text) ? text : text + "\n";
+}
+
+// Adds text to what a register holds, as "A to "Z do. Text added to or from a linewise register makes it linewise.
+function append(existing: VimRegister, value: VimRegister): VimRegister {
+    if (!existing)
+        return value;
+    if (existing.linewise || value.linewise)
+        return { linewise: true, text: withLineBreak(existing.text) + withLineBreak(value.text) };
+    return { linewise: false, text: existing.text + value.text };
+}
+
+// How :registers shows text: control characters as ^ and a letter, so that each register fits on one line.
+export function displayText(text: string): string {
+    return text.replace(/[\x00-\x1f]/g, c => "^" + String.fromCharCode(c.charCodeAt(0) + 64));
+}
+
+// Vim's registers (:help registers). A yank without a register goes into "0, a delete into "1 (moving the older ones
+// up to "9) unless it was within a line, which goes into "- instead. "" is whichever register was written last.
+export class Registers {
+    private values: { [name: string]: VimRegister };
+    // The register "" stands for
+    private unnamed: string;
+    // The text last written to the clipboard, so that it is put back linewise when it was yanked that way
+    private clipboard: VimRegister;
+    private host: EditorHost;
+    private readOnly: (name: string) => string;
+
+    // readOnly gives the text of the read-only registers, or null for one that is empty.
+    public constructor(host: EditorHost, readOnly: (name: string) => string) {
+        this.values = {};
+        this.unnamed = null;
+        this.clipboard = null;
+        this.host = host;
+        this.readOnly = readOnly;
+    }
+
+    // What a register holds, or null if it is empty. "+ and "* are what was last written to the clipboard, use read
+    // for what the clipboard holds now.
+    public get(name: string): VimRegister {
+        if (name === '"')
+            return this.unnamed ? this.get(this.unnamed) : null;
+        if (name === "+" || name === "*")
+            return this.clipboard;
+        if (readOnlyNames.indexOf(name) !== -1) {
+            const text = this.readOnly(name);
+            return text ? { linewise: false, text } : null;
+        }
+        return this.values[name.toLowerCase()] || null;
+    }
+
+    // What a register holds for putting it.
+    public async read(name: string): Promise<VimRegister> {
+        if (name !== "+" && name !== "*")
+            return this.get(name);
+        const text = await this.host.readClipboard();
+        if (this.clipboard && this.clipboard.text === text)
+            return this.clipboard;
+        return text ? { linewise: /\n$/.test(text), text } : null;
+    }
+
+    // Stores text that was yanked into a register, or into "0 when none was given ('"').
+    public async yank(name: string, value: VimRegister) {
+        if (name === '"')
+            name = "0";
+        if (await this.write(name, value))
+            this.unnamed = name.toLowerCase();
+    }
+
+    // Stores text that was deleted into a register. When none was given ('"') small deletes, within one line, go into
+    // "- and others into "1.
+    public async delete(name: string, value: VimRegister, small: boolean) {
+        if (name === '"' && small) {
+            name = "-";
+        } else if (name === '"') {
+            for (let i = 9; i > 1; i--) {
+                this.values[String(i)] = this.values[String(i - 1)];
+            }
+            name = "1";
+        }
+        if (await this.write(name, value))
+            this.unnamed = name.toLowerCase();
+    }
+
+    // Writes a register without making it the one "" stands for, as recording a macro does. An uppercase name appends
+    // to the register, "_ and the read-only registers are left as they are. Returns whether the register was written.
+    public async write(name: string, value: VimRegister): Promise<boolean> {
+        if (name === '"')
+            name = this.unnamed || "0";
+        if (name === "_" || readOnlyNames.indexOf(name) !== -1 || registerNames.indexOf(name.toLowerCase()) === -1)
+            return false;
+        if (/^[A-Z]$/.test(name))
+            value = append(this.values[name.toLowerCase()], value);
+        if (name === "+" || name === "*") {
+            this.clipboard = value;
+            await this.host.writeClipboard(value.text);
+        } else {
+            this.values[name.toLowerCase()] = value;
+        }
+        return true;
+    }
+
+    // A copy of what the registers hold, apart from the clipboard.
+    public save(): RegisterState {
+        const values: { [name: string]: VimRegister } = {};
+        for (const name of Object.keys(this.values)) {
+            values[name] = this.values[name];
+        }
+        return { values, unnamed: this.unnamed };
+    }
+
+    // Puts back what the registers held when save was called.
+    public restore(state: RegisterState) {
+        this.values = {};
+        for (const name of Object.keys(state.values)) {
+            this.values[name] = state.values[name];
+        }
+        this.unnamed = state.unnamed;
+    }
+
+    // The lines :registers shows for the registers in names, or every register when names is empty.
+    public async list(names: string): Promise<string[]> {
+        const lines = ["Type Name Content"];
+        for (const name of registerNames.split("")) {
+            if (names && names.indexOf(name) === -1)
+                continue;
+            const value = await this.read(name);
+            if (!value)
+                continue;
+            const type = value.blockwise ? "b" : value.linewise ? "l" : "c";
+            lines.push(`  ${type}  "${name}   ${displayText(value.text)}`);
+        }
+        return lines;
+    }
+}
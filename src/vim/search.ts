@@ -0,0 +1,38 @@
+// Finding the matches of compiled patterns (see pattern.ts) in a document's text.
+
+// A match of a pattern, as indexes into the text. end is exclusive.
+export interface SearchMatch {
+    start: number;
+    end: number;
+}
+
+export function findAll(text: string, regex: RegExp): SearchMatch[] {
+    const matches: SearchMatch[] = [];
+    regex.lastIndex = 0;
+    let match: RegExpExecArray;
+    /* tslint:disable */
+    while (match = regex.exec(text)) {
+        matches.push({ start: match.index, end: match.index + match[0].length });
+        // Step over empty matches so they are not found forever
+        if (match[0].length === 0)
+            regex.lastIndex++;
+    }
+    /* tslint:enable */
+    return matches;
+}
+
+// The first match starting after index, or before it when searching backwards. The search wraps around the end of
+// the text, and wrapped says whether it did.
+export function findNext(text: string, regex: RegExp, index: number, forward: boolean): { match: SearchMatch, wrapped: boolean } {
+    const matches = findAll(text, regex);
+    if (matches.length === 0)
+        return null;
+    if (forward) {
+        const next = matches.filter(m => m.start > index)[0];
+        return next ? { match: next, wrapped: false } : { match: matches[0], wrapped: true };
+    }
+    const previous = matches.filter(m => m.start < index);
+    return previous.length > 0 ?
+        { match: previous[previous.length - 1], wrapped: false } :
+        { match: matches[matches.length - 1], wrapped: true };
+}
@@ -0,0 +1,122 @@
+import { readPattern } from "./ex";
+
+// The parts of :s (:help :substitute) that do not need an editor: reading its argument and working out what each
+// match is replaced with.
+
+export interface SubstituteCommand {
+    // The pattern and replacement are null when they are left out, to repeat the last substitute, and the pattern is
+    // "" to use the last search pattern
+    pattern: string;
+    replacement: string;
+    // A '&' at the start keeps the flags of the last substitute
+    flags: string;
+    count: number;
+}
+
+// A replacement of the text from start to end (exclusive), as offsets into the text before any replacement is made.
+export interface Substitution {
+    start: number;
+    end: number;
+    text: string;
+}
+
+// Reads the '[flags] [count]' after the pattern and replacement, or all of the argument of :& and a :s that repeats
+// the last one.
+export function parseRepeat(argument: string): SubstituteCommand {
+    const match = /^\s*(&?[cegiI]*)\s*([1-9][0-9]*)?\s*$/.exec(argument);
+    if (!match)
+        throw new Error(`E488: Trailing characters: ${argument.trim()}`);
+    return { pattern: null, replacement: null, flags: match[1], count: match[2] ? Number(match[2]) : null };
+}
+
+// Reads the argument of :s, '/{pattern}/{replacement}/[flags] [count]', where any character other than a letter,
+// digit, '\', '"', '|' or a space can take the place of '/'.
+export function parseSubstitute(argument: string): SubstituteCommand {
+    const delimiter = argument[0];
+    if (!delimiter || /[a-zA-Z0-9\\"|\s]/.test(delimiter))
+        return parseRepeat(argument);
+
+    const pattern = readPattern(argument, 1, delimiter);
+    const replacement = readPattern(argument, pattern.index, delimiter);
+    if (/^\\=/.test(replacement.pattern))
+        throw new Error("\\= (an expression as the replacement) is not supported");
+    const repeat = parseRepeat(argument.substring(replacement.index));
+    return { pattern: pattern.pattern, replacement: replacement.pattern, flags: repeat.flags, count: repeat.count };
+}
+
+// Replaces each '~' in a replacement with the previous replacement. '\~' stays a literal '~'.
+export function expandTilde(replacement: string, previous: string): string {
+    return replacement.replace(/\\.|~/g, s => s === "~" ? previous : s);
+}
+
+// The text a match is replaced with: '&' and '\0' are the match, '\1'..'\9' its groups, '\u' and '\l' change the case
+// of the next character and '\U' and '\L' of everything up to '\E' or '\e', and '\r' breaks the line.
+export function expandReplacement(replacement: string, match: string[]): string {
+    let result = "";
+    let nextCase: string = null;
+    let allCase: string = null;
+    const add = (text: string) => {
+        for (const c of text) {
+            const changed = nextCase || allCase;
+            result += changed === "u" || changed === "U" ? c.toUpperCase() : changed === "l" || changed === "L" ? c.toLowerCase() : c;
+            nextCase = null;
+        }
+    };
+
+    for (let i = 0; i < replacement.length; i++) {
+        const c = replacement[i];
+        if (c === "&") {
+            add(match[0]);
+        } else if (c !== "\\" || i + 1 === replacement.length) {
+            add(c);
+        } else {
+            const escaped = replacement[++i];
+            if (/[0-9]/.test(escaped))
+                add(match[Number(escaped)] || "");
+            else if (escaped === "u" || escaped === "l")
+                nextCase = escaped;
+            else if (escaped === "U" || escaped === "L")
+                allCase = escaped;
+            else if (escaped === "E" || escaped === "e")
+                allCase = null;
+            // Vim puts a NUL in the file for \n, but a line break is what is meant in an editor
+            else if (escaped === "r" || escaped === "n")
+                result += "\n";
+            else if (escaped === "t")
+                add("\t");
+            else
+                add(escaped);
+        }
+    }
+    return result;
+}
+
+// The substitutions for the matches of regex that start between start and end, only the first of each line unless
+// global is set.
+export function findSubstitutions(text: string, regex: RegExp, replacement: string, start: number, end: number,
+                                  global: boolean): Substitution[] {
+    const substitutions: Substitution[] = [];
+    let previousEnd = -1;
+    regex.lastIndex = start;
+    for (;;) {
+        const match = regex.exec(text);
+        if (!match || match.index > end)
+            break;
+        if (match[0].length === 0) {
+            regex.lastIndex++;
+            // An empty match where the last one ended is not another match
+            if (match.index === previousEnd)
+                continue;
+        }
+        substitutions.push({ start: match.index, end: match.index + match[0].length, text: expandReplacement(replacement, match) });
+        previousEnd = match.index + match[0].length;
+        if (!global) {
+            // The rest of the line the match ends on is skipped
+            const lineEnd = text.indexOf("\n", Math.max(previousEnd - 1, match.index));
+            if (lineEnd === -1)
+                break;
+            regex.lastIndex = lineEnd + 1;
+        }
+    }
+    return substitutions;
+}
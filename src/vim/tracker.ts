@@ -0,0 +1,105 @@
+import { Position, TextDocumentContentChangeEvent } from "./editor";
+
+// Keeping positions on the text they were at while documents change, for marks, the cursors of a command done at each
+// of them and anything else that has to stay with the text.
+
+// Where the text from the start of a change to distance characters into its new text ends.
+function positionInChange(change: TextDocumentContentChangeEvent, distance: number): Position {
+    const start = change.range.start;
+    const lines = change.text.substring(0, distance).split("\n");
+    const last = lines[lines.length - 1].length;
+    return new Position(start.line + lines.length - 1, lines.length === 1 ? start.character + last : last);
+}
+
+// Where a position is after a change:
+// - before the change it stays,
+// - after it, or where text was only inserted, it moves with the text that follows the change,
+// - on a line the change deleted along with its line break it is deleted (null), or goes to the start of the change
+//   when keep is set,
+// - in other text the change replaced it stays as far from the start of the change as it was, as long as the new text
+//   reaches that far, and goes to the end of the new text otherwise.
+// A last line deleted with the line break before it looks like text deleted at the end of the line before it, and
+// positions on it go to the end of the new text.
+export function adjustPosition(position: Position, change: TextDocumentContentChangeEvent, keep?: boolean): Position {
+    const start = change.range.start;
+    const end = change.range.end;
+    if (position.isBefore(start))
+        return position;
+
+    const lines = change.text.split("\n");
+    if (position.isAfterOrEqual(end)) {
+        if (position.line !== end.line)
+            return position.translate(lines.length - 1 - (end.line - start.line), 0);
+        // What followed the change on its last line now follows the new text
+        const column = lines[lines.length - 1].length + (lines.length === 1 ? start.character : 0);
+        return new Position(start.line + lines.length - 1, column + position.character - end.character);
+    }
+    if ((position.line > start.line || start.character === 0) && position.line < end.line)
+        return keep ? start : null;
+    // Only the first and the last line of the change are left, and how far into the change a position on the last is
+    // follows from how long the replaced text was
+    const distance = position.line === start.line ?
+        position.character - start.character : change.rangeLength - (end.character - position.character);
+    return positionInChange(change, Math.max(distance, 0));
+}
+
+// A position the tracker keeps up to date. position is null once the line it was on is deleted, unless keep is set.
+export interface TrackedPosition {
+    uri: string;
+    position: Position;
+    keep: boolean;
+}
+
+// Where some tracked positions were, to put them back there
+export interface SavedPositions {
+    positions: TrackedPosition[];
+    saved: Position[];
+}
+
+// The positions that follow the text of their document. Everything that does is moved by the same rules, for every
+// edit, as the editor reports its changes.
+export class PositionTracker {
+    private positions: { [uri: string]: TrackedPosition[] };
+
+    public constructor() {
+        this.positions = {};
+    }
+
+    // Starts following a position of the document uri. A kept position is never deleted.
+    public track(uri: string, position: Position, keep?: boolean): TrackedPosition {
+        const tracked = { uri, position, keep: !!keep };
+        if (!this.positions[uri])
+            this.positions[uri] = [];
+        this.positions[uri].push(tracked);
+        return tracked;
+    }
+
+    public untrack(tracked: TrackedPosition) {
+        const positions = this.positions[tracked.uri] || [];
+        const index = positions.indexOf(tracked);
+        if (index !== -1)
+            positions.splice(index, 1);
+    }
+
+    // Moves the positions of the document uri for the changes of one edit. The changes are applied one after the other,
+    // in the order the editor reports them, so changes made together at several places have to come last one first,
+    // as the editor reports them.
+    public documentChanged(uri: string, changes: TextDocumentContentChangeEvent[]) {
+        for (const tracked of this.positions[uri] || []) {
+            for (const change of changes) {
+                if (tracked.position)
+                    tracked.position = adjustPosition(tracked.position, change, tracked.keep);
+            }
+        }
+    }
+
+    // Where the positions of the document uri are now, so that they can be put back after edits that are taken back.
+    public save(uri: string): SavedPositions {
+        const positions = (this.positions[uri] || []).slice();
+        return { positions, saved: positions.map(p => p.position) };
+    }
+
+    public restore(saved: SavedPositions) {
+        saved.positions.forEach((p, i) => p.position = saved.saved[i]);
+    }
+}
@@ -0,0 +1,137 @@
+import { findDifference } from "./batch";
+
+// A change to a document's text: the text between start and end is replaced with text.
+export interface TextChange {
+    start: number;
+    end: number;
+    text: string;
+}
+
+// A change undo or redo makes, and where the cursor goes after it
+export interface UndoChange extends TextChange {
+    cursor: number;
+}
+
+// One undo step: at start, after replaced before. The cursor was at the offset cursor before it.
+interface UndoStep {
+    start: number;
+    before: string;
+    after: string;
+    cursor: number;
+}
+
+// How many steps are kept, as Vim's 'undolevels'
+const undoLevels = 1000;
+
+// The undo history of one document, kept by the engine so that each Normal command and each Insert session is one
+// step however many edits it took. The history keeps the text as of the last step and records whatever differs from
+// it as the next one.
+// Undo and redo are made as new edits to the document rather than with the editor's own undo, whose steps do not line
+// up with these. That has a cost: the editor's undo stack grows with every u, Ctrl-R and U, and a document undone
+// back to its saved text still shows as modified. Recording a step also compares the whole text with the text of the
+// last step, so it takes time in proportion to the length of the document.
+export class UndoHistory {
+    private text: string;
+    private undoSteps: UndoStep[];
+    private redoSteps: UndoStep[];
+    // The line changed last, by the offset it starts at, and what it was before the changes U takes back
+    private lastLine: { start: number, text: string };
+    // After U, what the line was before it, so that another U takes it back
+    private restoredLine: { start: number, text: string };
+
+    public constructor(text: string) {
+        this.text = text;
+        this.undoSteps = [];
+        this.redoSteps = [];
+        this.lastLine = null;
+        this.restoredLine = null;
+    }
+
+    // Records how text differs from the text of the last step as a new step, which the edits made starting at the
+    // offset editStart with the cursor at the offset cursor. Returns whether there was a difference.
+    public record(text: string, editStart: number, cursor: number): boolean {
+        if (text === this.text) {
+            this.restoredLine = null;
+            return false;
+        }
+        const difference = findDifference(this.text, text);
+        // A change that could have been made in more than one place, like deleting one of two equal characters,
+        // starts where the edits did
+        const start = Math.max(Math.min(difference.start, editStart), 0);
+        const unchanged = this.text.substring(start, difference.start);
+        const step = {
+            start, before: unchanged + this.text.substring(difference.start, difference.end), after: unchanged + difference.text, cursor,
+        };
+        this.trackLine(step);
+        this.undoSteps.push(step);
+        if (this.undoSteps.length > undoLevels)
+            this.undoSteps.shift();
+        this.redoSteps = [];
+        this.text = text;
+        return true;
+    }
+
+    // The change that takes back the last step, or null if there is none. The cursor goes back to where it was before
+    // the step if that is on one of the lines the change puts back, and to the start of the change otherwise.
+    public undo(): UndoChange {
+        const step = this.undoSteps.pop();
+        if (!step)
+            return null;
+        this.redoSteps.push(step);
+        const change = this.apply(step.start, step.after, step.before);
+        const lines = { start: this.lineStart(step.start), end: this.lineEnd(step.start + step.before.length) };
+        const cursor = step.cursor >= lines.start && step.cursor <= lines.end ? step.cursor : step.start;
+        return { start: change.start, end: change.end, text: change.text, cursor };
+    }
+
+    // The change that makes the last step undo took back again, or null if there is none. The cursor goes to the
+    // start of the change.
+    public redo(): UndoChange {
+        const step = this.redoSteps.pop();
+        if (!step)
+            return null;
+        this.undoSteps.push(step);
+        const change = this.apply(step.start, step.before, step.after);
+        return { start: change.start, end: change.end, text: change.text, cursor: step.start };
+    }
+
+    // The change that puts the line changed last back the way it was before the changes made to it one after the
+    // other, as U does, or null if the last change was not within a line.
+    public undoLine(): TextChange {
+        if (!this.lastLine)
+            return null;
+        const start = this.lastLine.start;
+        const end = this.lineEnd(start);
+        this.restoredLine = { start, text: this.text.substring(start, end) };
+        return { start, end, text: this.lastLine.text };
+    }
+
+    private apply(start: number, from: string, to: string): TextChange {
+        this.text = this.text.substring(0, start) + to + this.text.substring(start + from.length);
+        this.lastLine = null;
+        return { start, end: start + from.length, text: to };
+    }
+
+    private lineStart(offset: number): number {
+        return offset === 0 ? 0 : this.text.lastIndexOf("\n", offset - 1) + 1;
+    }
+
+    private lineEnd(start: number): number {
+        const end = this.text.indexOf("\n", start);
+        return end === -1 ? this.text.length : end;
+    }
+
+    // Keeps what the line a step changed was before, while the steps keep to that one line.
+    private trackLine(step: UndoStep) {
+        if (this.restoredLine) {
+            this.lastLine = this.restoredLine;
+            this.restoredLine = null;
+        } else if (step.before.indexOf("\n") !== -1 || step.after.indexOf("\n") !== -1) {
+            this.lastLine = null;
+        } else {
+            const start = this.lineStart(step.start);
+            if (!this.lastLine || this.lastLine.start !== start)
+                this.lastLine = { start, text: this.text.substring(start, this.lineEnd(start)) };
+        }
+    }
+}
@@ -1,13 +1,134 @@
-import * as vscode from "vscode";
+import * as editor from "./editor";
 import {
-    VimMode, VimAction, Range, VimDocument, Motion,
+    VimMode, VimAction, VimDocument, Motion, WordType,
     ObjectAction, MotionAction, ChangeModeAction, OperatorAction, InstantAction, ReplaceAction,
 } from "./common";
 import { calculateMotion } from "./motion";
+import { blockFromCorners, blockRanges, blockSelections, blockText, putBlock } from "./block";
+import { compilePattern, escapePattern } from "./pattern";
+import { AddressContext, ExCommand, LineRange, parseCommand, parseCountArgument, parseDestination, parseGlobal, parseMarkNames } from "./ex";
+import { MarkPosition, Marks } from "./marks";
+import { ChangeList, JumpList } from "./jumplist";
+import { PositionTracker, TrackedPosition, adjustPosition } from "./tracker";
+import { calculateObject } from "./objects";
+import { BatchHost } from "./batch";
+import { keysToText, parseKeys } from "./keys";
+import { SubstituteCommand, Substitution, expandTilde, findSubstitutions, parseRepeat, parseSubstitute } from "./substitute";
+import { findAll, findNext } from "./search";
+import { RegisterState, Registers, VimRegister } from "./registers";
+import { TextChange, UndoChange, UndoHistory } from "./undo";
+import { KeyMapper, MappingMode, MappingSettings, ResolvedKey } from "./mappings";
+import { JumpSettings, assignLabels, labelKeys, lineStartPattern, nearestFirst, wordStartPattern } from "./jump";
+
+// A change as . repeats it: the command with its count and register, and what was typed in the Insert mode it
+// started.
+interface RecordedChange {
+    // Null when the command was typed without a count
+    count: number;
+    register: string;
+    action: VimAction;
+    // For an action that was the target of an operator, the operator
+    operator?: string;
+    // For an action typed in a Visual mode, the mode and the size of the selection it changed. A characterwise
+    // selection on one line is columns characters long, one over more lines ends at column columns of its last line.
+    visual?: { mode: VimMode, lines: number, columns: number, toEnd: boolean };
+    insert: string;
+}
+
+// Whether an action typed in Normal mode is a change . repeats: one that edits the text or starts Insert mode.
+function isChange(action: VimAction): boolean {
+    switch (action.type) {
+        case "replace":
+            return true;
+        case "changeMode":
+            return /^([iIaAoOR]|gI|gR)$/.test((action as ChangeModeAction).newMode);
+        case "instant":
+            return /^([xsXDCSpPJ&]|g&)$/.test((action as InstantAction).instant);
+        default:
+            return false;
+    }
+}
+
+// Whether an action typed in a Visual mode is a change . repeats: everything that does something to the selection
+// other than yanking it or folding it.
+function isVisualChange(action: VimAction): boolean {
+    return action.type === "replace" || (action.type === "instant" && !/^([yYoO]|gb)$/.test((action as InstantAction).instant)) ||
+        (action.type === "operator" && (action as OperatorAction).operator !== "zf");
+}
+
+// Text with spaces before it up to width characters, for the columns of a listing
+function pad(text: string, width: number): string {
+    return new Array(Math.max(width - text.length, 0) + 1).join(" ") + text;
+}
+
+// Whether a motion is a jump, which sets the ' mark to where the cursor was before it (:help jump-motions).
+function isJumpMotion(motion: string): boolean {
+    return /^([GnN*#%`'\/?(){}]|gg|g\*|g#|\[\[|\]\]|\[\]|\]\[|jump|jumpLine)$/.test(motion);
+}
+
+// Makes a motion characterwise after v, turning inclusive into exclusive and the other way round, or linewise after V,
+// as typing them between an operator and its motion does (:help o_v).
+function forceMotion(motion: Motion, forced: string) {
+    if (forced === "V") {
+        motion.linewise = true;
+    } else if (motion.linewise) {
+        motion.linewise = false;
+        motion.inclusive = false;
+    } else {
+        motion.inclusive = !motion.inclusive;
+    }
+}
+
+// Makes a w or W motion of an operator whose last word, started at lastStart, is at the end of its line stop at the
+// end of that word instead of going on to the next line (:help word). dw on the last word of a line keeps the line.
+function stopAtLineEnd(motion: Motion, lastStart: number, document: editor.TextDocument) {
+    const start = document.positionAt(lastStart);
+    const line = document.lineAt(start.line);
+    if (motion.end <= lastStart || document.positionAt(motion.end).line === start.line || start.character >= line.text.length)
+        return;
+    motion.end = document.offsetAt(line.range.end) - 1;
+    motion.inclusive = true;
+}
+
+// Makes an exclusive motion of an operator that ends in the first column of a later line end at the end of the line
+// before instead, taking in its last character, or take in whole lines when it starts at or before the first character
+// of its line that is not white space (:help exclusive-linewise). d} deletes up to the empty line after a paragraph.
+function adjustExclusiveEnd(motion: Motion, document: editor.TextDocument) {
+    if (motion.linewise || motion.inclusive)
+        return;
+    const start = document.positionAt(Math.min(motion.start, motion.end));
+    const end = document.positionAt(Math.max(motion.start, motion.end));
+    if (end.character !== 0 || end.line === start.line)
+        return;
+    const previous = document.lineAt(end.line - 1);
+    motion.start = document.offsetAt(start);
+    motion.end = document.offsetAt(previous.range.end);
+    if (start.character <= document.lineAt(start.line).firstNonWhitespaceCharacterIndex) {
+        motion.linewise = true;
+    } else if (previous.text.length > 0) {
+        motion.end--;
+        motion.inclusive = true;
+    }
+}
 
-interface VimRegister {
-    linewise: boolean;
-    text: string;
+// Whether an action is done at each cursor on its own when there are several. The rest, like undo or changing to
+// another Visual mode, are done once.
+function isPerCursor(action: VimAction, mode: VimMode): boolean {
+    switch (action.type) {
+        case "motion":
+        case "object":
+        case "replace":
+            return true;
+        case "changeMode":
+            return mode === VimMode.Normal && /^([iIaAoOR]|gI|gR)$/.test((action as ChangeModeAction).newMode);
+        case "instant":
+            const instant = (action as InstantAction).instant;
+            return mode === VimMode.Visual ? instant !== "gb" : /^[pPxXCDYSsJ.]$/.test(instant);
+        case "operator":
+            return mode === VimMode.Visual;
+        default:
+            return false;
+    }
 }
 
 function modeText(mode: VimMode): string {
@@ -15,28 +136,33 @@ function modeText(mode: VimMode): string {
         [VimMode.Normal]: "-- NORMAL --",
         [VimMode.Insert]: "-- INSERT --",
         [VimMode.Visual]: "-- VISUAL --",
+        [VimMode.VisualLine]: "-- VISUAL LINE --",
+        [VimMode.VisualBlock]: "-- VISUAL BLOCK --",
         [VimMode.OperatorPending]: "-- NORMAL -- (o)",
-        [VimMode.Jump]: "-- JUMP -- ",
+        [VimMode.Replace]: "-- REPLACE --",
+        [VimMode.VirtualReplace]: "-- VREPLACE --",
     }[mode];
 }
 
-function setToLetterGroups(indexSet: number[]): ({ [letter: string]: number[] }) {
-    const letterGroups: { [letter: string]: number[] } = {};
-    for (let i = 0; i < 26; i++) {
-        letterGroups[String.fromCharCode(65 + i)] = [];
+// The screen column the character at index in a line is shown at, with tabs tabSize columns apart.
+function screenColumn(line: string, index: number, tabSize: number): number {
+    let column = 0;
+    for (let i = 0; i < index && i < line.length; i++) {
+        column = line[i] === "\t" ? column + tabSize - column % tabSize : column + 1;
     }
-
-    let k = 0;
-    indexSet.forEach(i => {
-        letterGroups[String.fromCharCode(65 + k)].push(i);
-        k = (k + 1) % 26;
-    });
-
-    return letterGroups;
+    return column;
 }
 
-function escapeRegExp(str: string) {
-    return str.replace(/[\-\[\]\/\{\}\(\)\*\+\?\.\\\^\$\|]/g, "\\$&");
+// What gu, gU and g? make of text: lowercase, uppercase or every letter rotated 13 places through the alphabet.
+function changeCase(operator: string, text: string): string {
+    if (operator === "gu")
+        return text.toLowerCase();
+    if (operator === "gU")
+        return text.toUpperCase();
+    return text.replace(/[a-zA-Z]/g, c => {
+        const base = c <= "Z" ? 65 : 97;
+        return String.fromCharCode((c.charCodeAt(0) - base + 13) % 26 + base);
+    });
 }
 
 export class Vim {
@@ -54,49 +180,159 @@ export class Vim {
     private operatorCount: string;
     // A string representing the keys the make up the current command
     private enteredText: string;
-    // The last action that was performed on the document
-    private lastAction: { action: VimAction, insert: string };
-    // The set of indexes that each letter represents in jump mode
+    // The last change, repeated by .
+    private lastChange: RecordedChange;
+    // The change that started Insert mode, if one did, which what is typed goes into
+    private insertingChange: RecordedChange;
     private lastLineSearch: { motion: string, target: string };
-    private indexSet: { [letter: string]: number[] };
+    // While a jump waits for a label, the offset each label jumps to, less the keys of it already typed
+    private jumpTargets: { [label: string]: number };
+    // v or V typed after an operator, forcing the motion that follows to be characterwise or linewise
+    private forcedMotion: string;
+    // The keys jump labels are made of
+    private jumpKeys: string;
     // The destination register for the currently entered command
     private registerTarget: string;
     // The last text that was inserted, reset after entering normal mode or moving the cursor
     private lastInsertedTest: string;
 
-    private registers: { [register: string]: VimRegister };
-    private marks: { [letter: string]: vscode.Position };
-
-    private modeStatusBar: vscode.StatusBarItem;
-    private enteredTextStatusBar: vscode.StatusBarItem;
-
-    private decorators: { [letter: string]: vscode.TextEditorDecorationType };
-
-    constructor() {
+    // In Visual Line and Visual Block mode, where the selection was started and where the cursor is. The selection
+    // always covers every line between the two.
+    private visualAnchor: editor.Position;
+    private visualCursor: editor.Position;
+    // In Visual Block mode, whether $ extended the block to the end of every line
+    private visualBlockToEnd: boolean;
+    // Where the cursor goes when an Insert started by I or A in Visual Block mode ends
+    private blockInsertStart: editor.Position;
+    // In Replace mode, the character each typed character replaced at each cursor, or "" where it was added, for <bs>
+    // to put back
+    private replacedText: string[][];
+
+    // In Cmdline mode, the prompt (':', '/' or '?'), what has been typed after it and the mode it was entered from
+    private cmdline: { prompt: string, text: string, returnMode: VimMode };
+    // The pattern n and N search for
+    private lastSearch: { pattern: string, forward: boolean };
+    // Whether the matches of the last search are highlighted, until :noh
+    private searchHighlighted: boolean;
+    // The last :s, repeated by :&, & and g&
+    private lastSubstitute: { pattern: string, replacement: string, flags: string };
+    // While :s asks to confirm each match: the matches, the one being asked about and the ones accepted so far
+    private substituteConfirm: { substitutions: Substitution[], index: number, accepted: Substitution[], cursor: editor.Position };
+
+    // While :g runs, the lines it marked that are still to be done, kept up to date like marks
+    private globalLines: TrackedPosition[];
+    // The substitutions made by :s while :g runs, reported once it is done
+    private globalSubstitutions: { count: number, lines: number };
+
+    // While an action is done at each of several cursors, the anchor and active end of each selection by its index,
+    // kept up to date like marks
+    private cursorPositions: { anchor: TrackedPosition, active: TrackedPosition }[];
+    // The registers of each of several cursors, so that what one deletes is what it puts. Null until they are used.
+    private cursorRegisters: RegisterState[];
+
+    // While q records a macro, the register it goes into, the keys typed so far and how many of them were typed
+    // before the ones the key being handled came from
+    private macroRecording: { register: string, keys: string[], handled: number };
+    // Set while a macro is replayed. Its keys are in the typeahead ahead of any typed meanwhile, which wait until it is
+    // done.
+    private replaying: boolean;
+    // The register @@ replays
+    private lastMacro: string;
+    // Set when the last key failed, as a motion that cannot move does, which ends the macro being replayed
+    private failed: boolean;
+
+    // The text typed in the last Insert mode and the last command line, what ". and ": hold
+    private insertedText: string;
+    private lastCommandLine: string;
+
+    // The undo history of each document keys have been typed in, by uri
+    private undoHistories: { [uri: string]: UndoHistory };
+    // Whether the document changed since the last undo step was recorded, and the offset of the first edit since
+    private edited: boolean;
+    private editStart: number;
+    // The offset of the cursor when the edits since the last undo step began
+    private undoCursor: number;
+
+    // The user's key mappings, which typed keys go through before they are handled, and how long to wait for the rest
+    // of one
+    private mapper: KeyMapper;
+    private timeoutlen: number;
+    private mappingTimer: any;
+
+    private registers: Registers;
+    private marks: Marks;
+    // Everything that stays on the text it was at as documents change
+    private positions: PositionTracker;
+    private jumpList: JumpList;
+    private changeLists: { [uri: string]: ChangeList };
+
+    private host: editor.EditorHost;
+
+    private jumpDecoration: editor.DecorationType;
+    private searchDecoration: editor.DecorationType;
+    private substituteDecoration: editor.DecorationType;
+
+    constructor(host: editor.EditorHost) {
+        this.host = host;
         this.mode = VimMode.Normal;
         this.enteredCount = "";
         this.enteredText = "";
-        this.lastAction = null;
-
-        this.decorators = {};
-        for (let i = 0; i < 26; i++) {
-            let c = String.fromCharCode(65 + i);
-            this.decorators[c] = vscode.window.createTextEditorDecorationType(<any> {
-                isWholeLine: false,
-                before: {
-                    color: "rgba(255, 255, 255, 1)",
-                    backgroundColor: "rgba(0, 0, 255, 1);position: absolute",
-                    contentText: c,
-                },
-            });
-        }
+        this.lastChange = null;
+        this.registerTarget = '"';
+
+        this.jumpDecoration = this.host.createDecorationType({
+            before: {
+                color: new editor.ThemeColor("vimish.jumpLabelForeground"),
+                backgroundColor: new editor.ThemeColor("vimish.jumpLabelBackground"),
+                // The label covers the text instead of pushing it aside
+                textDecoration: "none; position: absolute",
+            },
+        });
+        this.searchDecoration = this.host.createDecorationType({ backgroundColor: "rgba(255, 200, 0, 0.4)" });
+        this.substituteDecoration = this.host.createDecorationType({ color: "rgba(255, 255, 255, 1)", backgroundColor: "rgba(0, 0, 255, 1)" });
+
+        this.registers = new Registers(host, name => this.readOnlyRegister(name));
+        this.undoHistories = {};
+        this.edited = false;
+        this.positions = new PositionTracker();
+        this.marks = new Marks(this.positions);
+        this.jumpList = new JumpList(this.positions);
+        this.changeLists = {};
+        this.configure({});
+
+        // While a macro is replayed the engine follows the copy of the document it is replayed on instead
+        this.host.onDidChangeSelections(selections => {
+            if (this.host === host)
+                this.updateSelection(selections);
+        });
+        this.host.onDidChangeTextDocument(e => {
+            if (this.host === host)
+                this.documentChanged(e);
+        });
+        this.host.onDidChangeActiveTextEditor(() => {
+            if (this.host === host)
+                this.updateUI();
+        });
+    }
 
-        this.registers = {};
-        this.marks = {};
+    public getRegister(register: string): VimRegister {
+        return this.registers.get(register);
     }
 
-    public updateSelection(selections: vscode.Selection[]) {
-        if (this.mode === VimMode.Visual && selections.every(s => s.start.isEqual(s.end))) {
+    public updateSelection(selections: editor.Selection[]) {
+        if (this.mode === VimMode.VisualLine) {
+            // Anything other than the selection Visual Line mode made itself was made with the mouse or another command
+            const lineSelection = this.visualLineSelection();
+            if (selections.length !== 1 || !selections[0].isEqual(lineSelection)) {
+                this.setMode(selections.every(s => s.isEmpty) ? VimMode.Normal : VimMode.Visual, true);
+            }
+        } else if (this.mode === VimMode.VisualBlock) {
+            const blockSelection = blockSelections(this.host.activeTextEditor.document, this.visualAnchor, this.visualCursor,
+                this.visualBlockToEnd);
+            if (selections.length !== blockSelection.length || selections.some((s, i) => !s.isEqual(blockSelection[i]))) {
+                this.setMode(selections.every(s => s.isEmpty) ? VimMode.Normal : VimMode.Visual, true);
+            }
+        } else if (this.mode === VimMode.Visual && selections.every(s => s.start.isEqual(s.end))) {
             this.setMode(VimMode.Normal, true);
         } else if ((this.mode === VimMode.Normal || this.mode === VimMode.OperatorPending) &&
             selections.some(s => !s.start.isEqual(s.end))) {
@@ -113,13 +349,14 @@ export class Vim {
             this.operatorPending = null;
             this.enteredCount = "";
             this.objectRange = null;
-            this.indexSet = null;
+            this.jumpTargets = null;
+            this.forcedMotion = null;
             this.enteredText = "";
             this.registerTarget = '"';
             this.lastInsertedTest = "";
-            for (const v of Object.keys(this.decorators)) {
-                vscode.window.activeTextEditor.setDecorations(this.decorators[v], []);
-            }
+            this.blockInsertStart = null;
+            if (this.host.activeTextEditor)
+                this.host.activeTextEditor.setDecorations(this.jumpDecoration, []);
         }
         this.mode = mode;
 
@@ -127,36 +364,141 @@ export class Vim {
     }
 
     public updateUI() {
-        if (!this.modeStatusBar)
-            this.modeStatusBar = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left);
-
-        if (vscode.window.activeTextEditor) {
-            if (this.mode === VimMode.Insert || this.mode === VimMode.Visual)
-                vscode.window.activeTextEditor.options = { cursorStyle: vscode.TextEditorCursorStyle.Line };
+        if (this.host.activeTextEditor) {
+            if (this.mode === VimMode.Insert || this.isVisual())
+                this.host.activeTextEditor.setCursorStyle(editor.CursorStyle.Line);
             else if (this.mode === VimMode.Normal)
-                vscode.window.activeTextEditor.options = { cursorStyle: vscode.TextEditorCursorStyle.Block };
+                this.host.activeTextEditor.setCursorStyle(editor.CursorStyle.Block);
+            else if (this.isReplace())
+                this.host.activeTextEditor.setCursorStyle(editor.CursorStyle.Underline);
         }
 
-        this.modeStatusBar.text = modeText(this.mode);
-        this.modeStatusBar.show();
+        // The command line is typed without leaving the mode it was opened from
+        const text = modeText(this.mode === VimMode.Cmdline ? this.cmdline.returnMode : this.mode);
+        const recording = this.macroRecording ? ` recording @${this.macroRecording.register}` : "";
+        this.host.setStatusText(editor.StatusItem.Mode, text + recording);
+        // Ctrl-R, Ctrl-O and Ctrl-I are left to the editor while typing text
+        this.host.setContext("vimish.insertMode", this.mode === VimMode.Insert || this.isReplace());
+    }
+
+    // Sets up the user's key mappings, dropping any keys waiting for the rest of one.
+    public configure(settings: MappingSettings & JumpSettings) {
+        clearTimeout(this.mappingTimer);
+        this.mapper = new KeyMapper(settings);
+        this.timeoutlen = settings.timeoutlen != null ? settings.timeoutlen : 1000;
+        this.jumpKeys = labelKeys(settings.jumpLabels);
     }
 
     public async key(key: string) {
+        if (this.macroRecording)
+            this.macroRecording.keys.push(key);
+        // Keys typed while a macro is replayed wait until it is done, even when it fails
+        clearTimeout(this.mappingTimer);
+        this.mapper.type(key);
+        if (!this.replaying)
+            await this.resolveKeys(false);
+    }
+
+    // Handles the keys the mappings make of what was typed. Keys that could be the start of a mapping wait for the
+    // rest of it until timeoutlen has passed.
+    private async resolveKeys(timedOut: boolean) {
+        for (;;) {
+            const next = this.nextKey(timedOut);
+            if (!next)
+                break;
+            if (this.macroRecording)
+                this.macroRecording.handled = this.macroRecording.keys.length - this.mapper.typedWaiting - this.mapper.lastTyped;
+            if (next.command) {
+                await this.host.executeCommand(next.command);
+            } else {
+                // Edits made some other way since the last key are an undo step of their own
+                this.recordUndo();
+                await this.handleKey(next.key);
+                this.recordUndo();
+            }
+        }
+        if (this.mapper.waiting)
+            this.mappingTimer = setTimeout(() => this.resolveKeys(true), this.timeoutlen);
+    }
+
+    // Takes what comes next out of the typeahead with the mappings of the current mode applied, or null if nothing is
+    // ready. A mapping that keeps mapping itself empties the typeahead.
+    private nextKey(timedOut: boolean): ResolvedKey {
+        try {
+            return this.mapper.next(this.mappingMode(), timedOut);
+        } catch (e) {
+            this.showMessage(e.message);
+            return null;
+        }
+    }
+
+    // Handles what comes next out of the typeahead for the keys a macro or :normal put in it, without waiting for the
+    // rest of a mapping, which only keys still to be typed could finish. Returns false if nothing came out.
+    private async handleInsertedKey(): Promise<boolean> {
+        const next = this.nextKey(true);
+        if (!next)
+            return false;
+        if (next.command)
+            await this.host.executeCommand(next.command);
+        else
+            await this.handleKey(next.key);
+        return true;
+    }
+
+    // The mappings that apply to the next key, or null where keys are never mapped: the command line and the
+    // argument of a command like f or r.
+    private mappingMode(): MappingMode {
+        if (this.pseudoMode)
+            return null;
+        switch (this.mode) {
+            case VimMode.Normal:
+                return "normal";
+            case VimMode.Insert:
+            case VimMode.Replace:
+            case VimMode.VirtualReplace:
+                return "insert";
+            case VimMode.Visual:
+            case VimMode.VisualLine:
+            case VimMode.VisualBlock:
+                return "visual";
+            case VimMode.OperatorPending:
+                return "operatorPending";
+            default:
+                return null;
+        }
+    }
+
+    private async handleKey(key: string) {
         if (key === "<left>") {
             this.lastInsertedTest = "";
-            await vscode.commands.executeCommand("cursorLeft");
+            this.replacedText = [];
+            await this.host.executeCommand("cursorLeft");
             return;
         } else if (key === "<right>") {
             this.lastInsertedTest = "";
-            await vscode.commands.executeCommand("cursorRight");
+            this.replacedText = [];
+            await this.host.executeCommand("cursorRight");
             return;
         } else if (key === "<up>") {
             this.lastInsertedTest = "";
-            await vscode.commands.executeCommand("cursorUp");
+            this.replacedText = [];
+            await this.host.executeCommand("cursorUp");
             return;
         } else if (key === "<down>") {
             this.lastInsertedTest = "";
-            await vscode.commands.executeCommand("cursorDown");
+            this.replacedText = [];
+            await this.host.executeCommand("cursorDown");
+            return;
+        } else if (key === "<bs>" && this.mode !== VimMode.Cmdline) {
+            if (this.mode === VimMode.Insert) {
+                await this.host.executeCommand("deleteLeft");
+                this.lastInsertedTest = this.lastInsertedTest.slice(0, -1);
+            } else if (this.isReplace()) {
+                await this.replaceBackspace();
+                this.lastInsertedTest = this.lastInsertedTest.slice(0, -1);
+            }
+            else if (this.mode === VimMode.Normal)
+                await this.host.executeCommand("cursorLeft");
             return;
         }
 
@@ -167,11 +509,6 @@ export class Vim {
                     await this.normalKey(key);
                     break;
 
-                case VimMode.Jump:
-                    this.enteredText += key;
-                    this.jumpKey(key);
-                    break;
-
                 case VimMode.OperatorPending:
                     this.enteredText += key;
                     await this.keyOperatorPending(key);
@@ -179,52 +516,79 @@ export class Vim {
 
                 case VimMode.Insert:
                     if (key === "<esc>") {
-                        const line = vscode.window.activeTextEditor.selection.start.line;
-                        const col = Math.max(vscode.window.activeTextEditor.selection.start.character - 1, 0);
-                        vscode.window.activeTextEditor.selection = new vscode.Selection(line, col, line, col);
-                        this.setMode(VimMode.Normal, true);
+                        await this.leaveInsert();
+                    } else if (key === "<c-v>") {
+                        // Ctrl-V stays the editor's paste in Insert mode
+                        await this.host.executeCommand("editor.action.clipboardPasteAction");
+                    } else if (key === "<c-r>" || key === "<c-o>") {
+                        // Inserting a register is not supported, Ctrl-R is only redo, and Ctrl-O only the jumplist
                     } else {
-                        await vscode.commands.executeCommand("default:type", { text: key });
+                        await this.host.executeCommand("default:type", { text: key });
+                        this.lastInsertedTest += key;
+                    }
+                    break;
+
+                case VimMode.Replace:
+                case VimMode.VirtualReplace:
+                    if (key === "<esc>") {
+                        await this.leaveInsert();
+                    } else if (key !== "<c-v>" && key !== "<c-r>" && key !== "<c-o>") {
+                        await this.replaceText(key);
                         this.lastInsertedTest += key;
                     }
                     break;
 
                 case VimMode.Visual:
+                case VimMode.VisualLine:
+                    this.setVisualMarks();
                     await this.visualKey(key);
                     break;
 
+                case VimMode.VisualBlock:
+                    this.setVisualMarks();
+                    await this.visualBlockKey(key);
+                    break;
+
+                case VimMode.Cmdline:
+                    await this.cmdlineKey(key);
+                    break;
+
                 default:
                     this.setMode(VimMode.Normal, true);
             }
 
-            if (!this.enteredTextStatusBar)
-                this.enteredTextStatusBar = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left);
-            this.enteredTextStatusBar.text = this.enteredText;
-            this.enteredTextStatusBar.show();
+            this.host.setStatusText(editor.StatusItem.EnteredText, this.enteredText);
         } catch (e) {
             console.error(e);
         }
     }
 
-    public cleanSelection(selections: vscode.Selection[]) {
+    public cleanSelection(selections: editor.Selection[]) {
         if (this.mode === VimMode.Normal || this.mode === VimMode.OperatorPending) {
             let updateSelections = false;
             let newSelections = selections.map(s => {
                 if (s.start.character === 0 || s.start.compareTo(s.end) !== 0)
                     return s;
 
-                if (vscode.window.activeTextEditor.document.validatePosition(s.start.translate(0, 1)).character === s.start.character) {
+                if (this.host.activeTextEditor.document.validatePosition(s.start.translate(0, 1)).character === s.start.character) {
                     updateSelections = true;
-                    return new vscode.Selection(s.start.line, s.start.character - 1, s.start.line, s.start.character - 1);
+                    return new editor.Selection(s.start.line, s.start.character - 1, s.start.line, s.start.character - 1);
                 } else {
                     return s;
                 }
             });
             if (updateSelections)
-                vscode.window.activeTextEditor.selections = newSelections;
+                this.host.activeTextEditor.selections = newSelections;
         }
     }
 
+    // An operator typed after a prefix, or the line motion when it is the operator that is pending again (gugu).
+    private operatorCommand(operator: string): VimAction {
+        if (this.mode === VimMode.OperatorPending && operator === this.operatorPending)
+            return { type: "motion", motion: "line", count: Number(this.enteredCount || "1") };
+        return { type: "operator", operator };
+    }
+
     public getNormalCommand(key: string): VimAction {
         if (this.pseudoMode === "f") {
             this.pseudoMode = null;
@@ -238,6 +602,40 @@ export class Vim {
                 return { type: "motion", motion: "gg", count: Number(this.enteredCount || "0") };
             if (key === "I")
                 return { type: "changeMode", newMode: "gI", count: 1 };
+            if (key === "R")
+                return { type: "changeMode", newMode: "gR", count: Number(this.enteredCount || "1") };
+            if (key === "*" || key === "#")
+                return { type: "motion", motion: "g" + key, count: Number(this.enteredCount || "1") };
+            if (key === "&")
+                return { type: "instant", instant: "g&", count: 1, register: this.registerTarget };
+            if (key === "b")
+                return { type: "instant", instant: "gb", count: 1, register: this.registerTarget };
+            if ((key === ";" || key === ",") && this.mode === VimMode.Normal)
+                return { type: "instant", instant: "g" + key, count: Number(this.enteredCount || "1"), register: this.registerTarget };
+            if (key === "u" || key === "U" || key === "?")
+                return this.operatorCommand("g" + key);
+            if (key === "Q") {
+                this.pseudoMode = "gQ";
+                return null;
+            }
+            this.setMode(VimMode.Normal, true);
+            return null;
+        }
+
+        // [[, ]], [] and ][
+        if (this.pseudoMode === "[" || this.pseudoMode === "]") {
+            const bracket = this.pseudoMode;
+            this.pseudoMode = null;
+            if (key === "[" || key === "]")
+                return { type: "motion", motion: bracket + key, count: Number(this.enteredCount || "1") };
+            this.setMode(VimMode.Normal, true);
+            return null;
+        }
+
+        if (this.pseudoMode === "z") {
+            this.pseudoMode = null;
+            if (key === "f")
+                return this.operatorCommand("zf");
             this.setMode(VimMode.Normal, true);
             return null;
         }
@@ -251,6 +649,10 @@ export class Vim {
             return this.jumpKey(key);
         }
 
+        if (this.pseudoMode === "gQ") {
+            return this.jumpVariantKey(key);
+        }
+
         if (this.pseudoMode === '"') {
             this.registerTarget = key;
             this.pseudoMode = null;
@@ -262,6 +664,16 @@ export class Vim {
             return { type: "instant", instant: "m", count: 1, register: this.registerTarget, target: key };
         }
 
+        if (this.pseudoMode === "q") {
+            this.pseudoMode = null;
+            return { type: "instant", instant: "q", count: 1, register: this.registerTarget, target: key };
+        }
+
+        if (this.pseudoMode === "@") {
+            this.pseudoMode = null;
+            return { type: "instant", instant: "@", count: Number(this.enteredCount || "1"), register: this.registerTarget, target: key };
+        }
+
         if (this.pseudoMode === "`" || this.pseudoMode === "'") {
             const markType = this.pseudoMode;
             this.pseudoMode = null;
@@ -271,19 +683,22 @@ export class Vim {
         // Object
         if (this.pseudoMode === "o") {
             this.pseudoMode = null;
-            if (key.match(/^[wWsp\]\[\)\(<>t{}"'bB]$/)) {
+            if (key.match(/^[wWsp\]\[\)\(<>t{}"'`bB]$/)) {
                 return { type: "object", range: this.objectRange, object: key, count: Number(this.enteredCount || "1") };
             }
         }
 
         if (this.mode === VimMode.OperatorPending) {
-            if (key === this.operatorPending)
+            // Typing the operator again, or its last character for gu, gU and g?, works on whole lines
+            if (key === this.operatorPending || (/^g[uU?]$/.test(this.operatorPending) && key === this.operatorPending[1]))
                 return { type: "motion", motion: "line", count: Number(this.enteredCount || "1") };
         }
 
-        if (this.mode === VimMode.Visual) {
-            if (key.match(/^[dcCRSsxuUyY]$/))
+        if (this.isVisual()) {
+            if (key.match(/^[dcCDRSsxXuUyYJ<>=po]$/) || (this.mode === VimMode.VisualBlock && key.match(/^[IAO]$/)))
                 return { type: "instant", instant: key, count: Number(this.enteredCount || "1"), register: this.registerTarget };
+            if (key.match(/^[vV]$/) || key === "<c-v>")
+                return { type: "changeMode", newMode: key, count: 1 };
         }
 
         if (key.match(/^[1-9]$/) || (key === "0" && this.enteredCount.length > 0)) {
@@ -292,7 +707,7 @@ export class Vim {
         }
 
         // Motion
-        if (key.match(/^[0wWeEhjkl$^bBG\-\n+_;,%]$/)) {
+        if (key.match(/^[0wWeEhjkl$^bBG\-\n+_;,%nN*#(){}]$/)) {
             if (key === "G" || key === "%")
                 return { type: "motion", motion: key, count: Number(this.enteredCount || "0") };
             return { type: "motion", motion: key, count: Number(this.enteredCount || "1") };
@@ -304,31 +719,56 @@ export class Vim {
             return null;
         }
 
-        if (key.match(/^[grmQ"'`]$/)) {
+        if (key.match(/^[gzrm"'`\[\]]$/)) {
+            this.pseudoMode = key;
+            return null;
+        }
+
+        if (key === "Q") {
             this.pseudoMode = key;
+            this.pseudoModeParameter = null;
+            return null;
+        }
+
+        if (this.mode === VimMode.OperatorPending && (key === "v" || key === "V")) {
+            this.forcedMotion = key;
+            return null;
+        }
+
+        if (key === "/" || key === "?" || (key === ":" && this.mode !== VimMode.OperatorPending)) {
+            this.openCmdline(key);
             return null;
         }
 
         if (this.mode === VimMode.Normal) {
             // Mode switch
-            if (key.match(/^[iIaAoOvV]$/))
+            if (key.match(/^[iIaAoORvV]$/) || key === "<c-v>")
                 return { type: "changeMode", newMode: key, count: Number(this.enteredCount || "1") };
 
             // Operators
-            if (key.match(/^[cdy]$/))
+            if (key.match(/^[cdy<>=]$/))
                 return { type: "operator", operator: key };
 
             // Action
-            if (key.match(/^[upPxXCDYSs]$/))
+            if (key.match(/^[uUpPxXCDYSsJ&]$/) || key === "<c-r>")
                 return { type: "instant", instant: key, count: Number(this.enteredCount || "1"), register: this.registerTarget };
 
-            if (key === ".") {
-                this.doNormalAction(this.lastAction.action);
-                // TODO: insert this.lastAction.insert
-                this.setMode(VimMode.Normal, true);
+            // Ctrl-O and Ctrl-I, which is Tab, go back and forth in the jumplist
+            if (key === "<c-o>" || key === "\t")
+                return { type: "instant", instant: key, count: Number(this.enteredCount || "1"), register: this.registerTarget };
+
+            // q ends the recording if there is one, and otherwise starts one in the register typed next
+            if (key === "q" && this.macroRecording)
+                return { type: "instant", instant: "q", count: 1, register: this.registerTarget };
+            if (key === "q" || key === "@") {
+                this.pseudoMode = key;
                 return null;
             }
-        } else if (this.mode === VimMode.Visual || this.mode === VimMode.OperatorPending) {
+
+            // Without a count, . repeats the change with the count it was made with
+            if (key === ".")
+                return { type: "instant", instant: ".", count: Number(this.enteredCount || "0"), register: this.registerTarget };
+        } else if (this.mode === VimMode.Visual || this.mode === VimMode.VisualLine || this.mode === VimMode.OperatorPending) {
             if (key.match(/^[ia]$/)) {
                 this.pseudoMode = "o";
                 this.objectRange = key;
@@ -340,161 +780,787 @@ export class Vim {
         return null;
     }
 
-    public documentChanged(e: vscode.TextDocumentChangeEvent) {
+    public documentChanged(e: editor.TextDocumentChangeEvent) {
         if (e) {
-            for (const change of e.contentChanges) {
-                for (const c in this.marks) {
-                    if (!this.marks[c])
-                        continue;
-                    if (change.range.contains(this.marks[c]))
-                        this.marks[c] = null;
-                }
-            }
+            const starts = e.contentChanges.map(c => e.document.offsetAt(c.range.start));
+            this.editStart = Math.min(this.edited ? this.editStart : Infinity, ...starts);
+            this.edited = true;
+            this.positions.documentChanged(e.document.uri, e.contentChanges);
+            this.setChangeMarks(e);
+        }
+    }
 
-            for (const change of e.contentChanges) {
-                let netLines = -Math.abs(change.range.end.line - change.range.start.line) +
-                    (change.text.match(/\n/g) || []).length;
-                const newMarks: { [letter: string]: vscode.Position } = {};
-                for (const c in this.marks) {
-                    if (!this.marks.hasOwnProperty(c))
-                        continue;
-                    if (!this.marks[c] || this.marks[c].isBefore(change.range.start) ||
-                        this.marks[c].isBefore(change.range.end)) {
-                        newMarks[c] = this.marks[c];
-                        continue;
-                    }
-                    newMarks[c] = this.marks[c].translate(netLines, 0);
-                }
-                this.marks = newMarks;
+    // Sets '[ and '] to the start and the end of the text an edit changed, and '. to where it was, which the changelist
+    // gets too.
+    private setChangeMarks(e: editor.TextDocumentChangeEvent) {
+        let start: editor.Position = null;
+        let end: editor.Position = null;
+        for (const change of e.contentChanges) {
+            // Where the earlier changes of the edit are after this one
+            if (start) {
+                start = adjustPosition(start, change, true);
+                end = adjustPosition(end, change, true);
             }
+            const lines = change.text.split("\n");
+            const last = lines[lines.length - 1].length + (lines.length === 1 ? change.range.start.character : 0);
+            // The last character of inserted text, or where deleted text was
+            const changeEnd = change.text ?
+                new editor.Position(change.range.start.line + lines.length - 1, Math.max(last - 1, 0)) : change.range.start;
+            start = !start || change.range.start.isBefore(start) ? change.range.start : start;
+            end = !end || changeEnd.isAfter(end) ? changeEnd : end;
         }
+        if (!start)
+            return;
+        const uri = e.document.uri;
+        this.marks.set(uri, "[", start);
+        this.marks.set(uri, "]", end);
+        this.marks.set(uri, ".", start);
+        if (!this.changeLists[uri])
+            this.changeLists[uri] = new ChangeList(this.positions);
+        this.changeLists[uri].add(uri, start);
     }
 
-    private static findLeftRightRange(leftCharacter: string, rightCharacter: string,
-                                      index: number, includeEnclosing: boolean, crossNewlines: boolean): Range {
-        // TODO: detect if we're on a character
-        let startIndex = Vim.findNextChar(leftCharacter, index, -1, crossNewlines);
-        if (startIndex === -1)
-            return null;
-        let endIndex = Vim.findNextChar(rightCharacter, index, 1, crossNewlines);
-        if (endIndex === -1)
-            return null;
-        // TODO: return null on non-enclosed adjacent characters <>
-        return includeEnclosing ? { start: startIndex, end: endIndex } : { start: startIndex + 1, end: endIndex - 1 };
+    // Sets '< and '> to the start and the end of the Visual selection.
+    private setVisualMarks() {
+        const active = this.host.activeTextEditor;
+        const document = active.document;
+        let start: editor.Position;
+        let end: editor.Position;
+        if (this.mode === VimMode.Visual) {
+            const selection = active.selection;
+            start = selection.start;
+            end = selection.isEmpty ? selection.end : document.positionAt(document.offsetAt(selection.end) - 1);
+        } else {
+            const block = blockFromCorners(this.visualAnchor, this.visualCursor, false);
+            start = new editor.Position(block.startLine, this.mode === VimMode.VisualLine ? 0 : block.startColumn);
+            end = this.mode === VimMode.VisualLine ? document.lineAt(block.endLine).range.end : new editor.Position(block.endLine, block.endColumn);
+        }
+        this.marks.set(document.uri, "<", start);
+        this.marks.set(document.uri, ">", end);
     }
 
-    private static findNextChar(character: string, startIndex: number, direction: number, crossNewlines: boolean): number {
-        const doc = vscode.window.activeTextEditor.document.getText();
-        for (let i = startIndex; i > 0 && i < doc.length; i += direction) {
-            if (!crossNewlines && doc[i] === "\n")
-                return -1;
-            if (doc[i] === character)
-                return i;
+    // Handles a key of a jump: after Q the character to jump to, which every match of in view is labelled for, then
+    // the keys of a label. Returns the jump once a whole label is typed.
+    private jumpKey(key: string): MotionAction {
+        if (this.jumpTargets == null) {
+            // gQl only looks on the cursor's line
+            this.labelJumpTargets(this.jumpMatches(compilePattern("\\c" + escapePattern(key)), this.pseudoModeParameter === "l"));
+            return null;
+        }
+
+        // The labels that start with the key, without it
+        const remaining: { [label: string]: number } = {};
+        for (const label of Object.keys(this.jumpTargets)) {
+            if (label[0] === key)
+                remaining[label.substring(1)] = this.jumpTargets[label];
+        }
+        if (remaining[""] != null) {
+            const motion = this.pseudoModeParameter === "j" ? "jumpLine" : "jump";
+            this.host.activeTextEditor.setDecorations(this.jumpDecoration, []);
+            this.jumpTargets = null;
+            this.pseudoMode = null;
+            return { type: "motion", motion, count: 1, target: remaining[""] };
         }
-        return -1;
+        this.jumpTargets = remaining;
+        if (Object.keys(remaining).length === 0)
+            this.cancelJump();
+        else
+            this.showJumpLabels();
+        return null;
+    }
+
+    // Handles the key after gQ, which says where to jump to: the start of a word in view (w), the start of a line in
+    // view (j) or a character on the cursor's line, before or after it (l).
+    private jumpVariantKey(key: string): MotionAction {
+        this.pseudoMode = "Q";
+        this.pseudoModeParameter = key;
+        if (key === "w")
+            this.labelJumpTargets(this.jumpMatches(wordStartPattern, false));
+        else if (key === "j")
+            this.labelJumpTargets(this.jumpMatches(lineStartPattern, false));
+        else if (key !== "l")
+            this.cancelJump();
+        return null;
     }
 
-    private static findEnclosedRange(character: string, index: number, includeEnclosing: boolean, crossNewlines: boolean): Range {
-        const doc = vscode.window.activeTextEditor.document.getText();
-        if (doc[index] === character) {
-            // TODO: Count from start of line
+    // The offsets of the matches of regex in the parts of the document in view, or on the cursor's line only.
+    private jumpMatches(regex: RegExp, lineOnly: boolean): number[] {
+        const active = this.host.activeTextEditor;
+        const document = active.document;
+        const cursor = this.isVisual() ? this.visualCursorPosition() : active.selection.active;
+        const ranges = lineOnly ? [document.lineAt(cursor.line).range] : active.visibleRanges.map(r => document.validateRange(r));
+        const matches: number[] = [];
+        for (const range of ranges) {
+            const start = document.offsetAt(range.start);
+            matches.push(...findAll(document.getText(range), regex).map(m => start + m.start));
         }
+        return matches;
+    }
 
-        return Vim.findLeftRightRange(character, character, index, includeEnclosing, crossNewlines);
+    // Labels the targets of a jump other than where the cursor is, the nearest to it first, or gives up on the jump if
+    // there are none.
+    private labelJumpTargets(targets: number[]) {
+        const active = this.host.activeTextEditor;
+        const cursor = this.isVisual() ? this.visualCursorPosition() : active.selection.active;
+        const elsewhere = targets.map(t => active.document.positionAt(t)).filter(p => !p.isEqual(cursor));
+        const nearest = nearestFirst(elsewhere, cursor);
+        const labels = assignLabels(nearest.length, this.jumpKeys);
+        this.jumpTargets = {};
+        labels.forEach((label, i) => this.jumpTargets[label] = active.document.offsetAt(nearest[i]));
+        if (labels.length === 0)
+            this.cancelJump();
+        else
+            this.showJumpLabels();
     }
 
-    private static calculateObject(doc: VimDocument, object: ObjectAction, index: number): Range {
-        if (object.object === "w") {
-            const word = doc.getWord(index);
-            return {
-                start: word.start,
-                end: word.end,
-            };
+    private showJumpLabels() {
+        const document = this.host.activeTextEditor.document;
+        const labels = Object.keys(this.jumpTargets);
+        this.host.activeTextEditor.setDecorations(this.jumpDecoration, labels.map(label => {
+            const p = document.positionAt(this.jumpTargets[label]);
+            return new editor.Range(p.line, p.character, p.line, p.character + 1);
+        }), labels);
+    }
+
+    // Gives up on a jump that has nowhere to go. An operator waiting for it is given up on as well, a Visual mode
+    // stays as it was.
+    private cancelJump() {
+        this.host.activeTextEditor.setDecorations(this.jumpDecoration, []);
+        this.jumpTargets = null;
+        this.pseudoMode = null;
+        this.failed = true;
+        if (!this.isVisual())
+            this.setMode(VimMode.Normal, true);
+    }
+
+    private openCmdline(prompt: string) {
+        let text = "";
+        if (prompt === ":" && this.isVisual()) {
+            // An Ex command typed in Visual mode applies to the selected lines, marked by '< and '>, and ends it
+            const lines = this.visualLines();
+            const active = this.host.activeTextEditor;
+            const cursor = this.mode === VimMode.Visual ? active.selection.active : this.visualCursor;
+            this.setVisualMarks();
+            active.selection = new editor.Selection(cursor, cursor);
+            this.setMode(VimMode.Normal, true);
+            text = "'<,'>";
         }
+        this.cmdline = { prompt, text, returnMode: this.mode };
+        this.setMode(VimMode.Cmdline, false);
+        this.showMessage(prompt + text);
+    }
 
-        if (object.object === "W") {
-            const word = doc.getWORD(index);
-            return {
-                start: word.start,
-                end: word.end,
-            };
+    private async cmdlineKey(key: string) {
+        if (this.substituteConfirm)
+            return this.substituteConfirmKey(key);
+        const cmdline = this.cmdline;
+        if (key === "<esc>" || (key === "<bs>" && cmdline.text.length === 0)) {
+            this.showMessage("");
+            this.highlightSearch(this.searchHighlighted ? this.lastSearch.pattern : null);
+            this.enteredCount = "";
+            // Leaving the command line cancels a pending operator, but not Visual mode
+            if (cmdline.returnMode === VimMode.OperatorPending)
+                return this.setMode(VimMode.Normal, true);
+            return this.setMode(cmdline.returnMode, false);
         }
 
-        switch (object.object) {
-            case '"':
-            case "'":
-            case "`":
-                return Vim.findEnclosedRange(object.object, index, object.range === "a", false);
+        if (key === "\n") {
+            this.setMode(cmdline.returnMode, false);
+            if (cmdline.prompt === ":") {
+                this.showMessage("");
+                this.lastCommandLine = cmdline.text;
+                await this.exCommand(cmdline.text);
+                if (this.mode === VimMode.Normal)
+                    this.setMode(VimMode.Normal, true);
+                return;
+            }
+            const search: MotionAction = { type: "motion", motion: cmdline.prompt, target: cmdline.text, count: Number(this.enteredCount || "1") };
+            return this.performAction(search);
+        }
 
-            case "[":
-            case "]":
-                return Vim.findLeftRightRange("[", "]", index, object.range === "a", true);
+        cmdline.text = key === "<bs>" ? cmdline.text.slice(0, -1) : cmdline.text + key;
+        this.showMessage(cmdline.prompt + cmdline.text);
+        if (cmdline.prompt !== ":")
+            this.highlightSearch(cmdline.text);
+    }
 
-            case "(":
-            case ")":
-            case "b":
-                return Vim.findLeftRightRange("(", ")", index, object.range === "a", true);
+    private async exCommand(text: string) {
+        try {
+            await this.runExCommand(parseCommand(text, this.addressContext()));
+        } catch (e) {
+            this.failed = true;
+            this.showMessage(e.message);
+        }
+    }
 
-            case "{":
-            case "}":
-            case "B":
-                return Vim.findLeftRightRange("{", "}", index, object.range === "a", true);
+    private async runExCommand(command: ExCommand) {
+        const active = this.host.activeTextEditor;
+        const lineCount = active.document.lineCount;
+        const current = active.selection.active.line + 1;
+        if (command.name === "") {
+            // A range on its own goes to its last line, which is a jump
+            if (command.range) {
+                this.recordJump({ uri: active.document.uri, position: active.selection.active });
+                this.cursorToLine(Math.min(Math.max(command.range.end, 1), lineCount) - 1);
+            }
+            return;
+        }
+        if (command.range && /^(changes|delmarks|display|jumps|marks|nohlsearch|quit|registers|write)$/.test(command.name))
+            throw new Error("E481: No range allowed");
+        if (command.range && command.range.end > lineCount)
+            throw new Error("E16: Invalid range");
+        // Line 0 is the first line for commands that work on lines
+        const range = command.range ?
+            { start: Math.max(command.range.start, 1), end: Math.max(command.range.end, 1) } : { start: current, end: current };
+        // A count is a number of lines starting at the last line of the range
+        const withCount = (count: number): LineRange =>
+            count ? { start: range.end, end: Math.min(range.end + count - 1, lineCount) } : range;
+
+        switch (command.name) {
+            case "delete":
+            case "yank":
+                const args = parseCountArgument(command.argument, true);
+                const lines = withCount(args.count);
+                this.registerTarget = args.register || '"';
+                await this.performOperation(command.name[0], {
+                    start: active.document.offsetAt(new editor.Position(lines.start - 1, 0)),
+                    end: active.document.offsetAt(new editor.Position(lines.end - 1, 0)),
+                    linewise: true,
+                    inclusive: false,
+                });
+                if (command.name === "delete")
+                    this.cursorToLine(Math.min(lines.start, active.document.lineCount) - 1);
+                break;
+
+            case "move":
+                const moveTo = parseDestination(command.argument, this.addressContext());
+                if (moveTo >= range.start && moveTo < range.end)
+                    throw new Error("E134: Cannot move a range of lines into itself");
+                await this.moveLines(range, moveTo);
+                break;
+
+            case "copy":
+            case "t":
+                await this.copyLines(range, parseDestination(command.argument, this.addressContext()));
+                break;
+
+            case "join":
+                const joinCount = parseCountArgument(command.argument, false).count;
+                // Without a range or a count the line is joined with the one below it
+                const joined = command.range || joinCount ? withCount(joinCount) : { start: current, end: Math.min(current + 1, lineCount) };
+                await this.joinLines(joined.start - 1, joined.end - joined.start + 1, !command.bang);
+                this.cursorToLine(joined.start - 1);
+                break;
+
+            case "normal":
+                if (!command.argument)
+                    throw new Error("E471: Argument required");
+                const keys = command.argument.split("");
+                // :normal! leaves the keys unmapped
+                if (!command.range)
+                    return this.normalKeys(keys, !command.bang);
+                // Lines deleted by the keys move the lines after them up, the way they do in Vim
+                for (let line = range.start; line <= range.end && line <= active.document.lineCount; line++) {
+                    active.selection = new editor.Selection(line - 1, 0, line - 1, 0);
+                    await this.normalKeys(keys, !command.bang);
+                }
+                break;
+
+            case "global":
+            case "vglobal":
+                const global = parseGlobal(command.argument);
+                await this.global(global.pattern, global.command, command.range ? range : { start: 1, end: lineCount },
+                    command.name === "vglobal" || command.bang);
+                break;
+
+            case "print":
+                const printed = withCount(parseCountArgument(command.argument, false).count);
+                this.cursorToLine(printed.end - 1);
+                this.showMessage(active.document.lineAt(printed.end - 1).text);
+                break;
+
+            case "registers":
+            case "display":
+                this.host.showOutput(await this.registers.list(command.argument.replace(/\s/g, "")));
+                break;
+
+            case "marks":
+                this.host.showOutput(this.listMarks(command.argument.replace(/\s/g, "")));
+                break;
+
+            case "jumps":
+                this.host.showOutput([" jump line  col file/text"].concat(this.listPositions(this.jumpList.list(), this.jumpList.current, 2)));
+                break;
+
+            case "changes": {
+                const changes = this.changeLists[active.document.uri];
+                this.host.showOutput(["change line  col text"].concat(changes ? this.listPositions(changes.list(), changes.current, 3) : [">"]));
+                break;
+            }
 
-            case "<":
-            case ">":
-                return Vim.findLeftRightRange("<", ">", index, object.range === "a", true);
+            case "delmarks":
+                if (command.bang && command.argument.trim())
+                    throw new Error("E474: Invalid argument");
+                if (!command.bang && !command.argument.trim())
+                    throw new Error("E471: Argument required");
+                // :delmarks! deletes a-z
+                const names = command.bang ? "abcdefghijklmnopqrstuvwxyz".split("") : parseMarkNames(command.argument);
+                names.forEach(name => this.marks.delete(active.document.uri, name));
+                break;
+
+            case "write":
+                if (command.argument)
+                    throw new Error(":write with a file name is not supported");
+                await this.host.executeCommand("workbench.action.files.save");
+                break;
+
+            case "quit":
+                if (command.argument)
+                    throw new Error(`E488: Trailing characters: ${command.argument}`);
+                await this.host.executeCommand(command.bang ? "workbench.action.revertAndCloseActiveEditor" : "workbench.action.closeActiveEditor");
+                break;
+
+            case "substitute":
+            case "&":
+                const substitute = command.name === "&" ? parseRepeat(command.argument) : parseSubstitute(command.argument);
+                await this.substitute(substitute, withCount(substitute.count));
+                break;
+
+            case "nohlsearch":
+                if (command.argument)
+                    throw new Error(`E488: Trailing characters: ${command.argument}`);
+                this.searchHighlighted = false;
+                this.highlightSearch(null);
+                break;
 
             default:
-                return null;
+                // The shift commands, shifting once for each > or <
+                const shifted = withCount(parseCountArgument(command.argument, false).count);
+                await this.shiftLines(shifted.start - 1, shifted.end - 1, command.name[0], command.name.length);
+                this.cursorToLine(shifted.end - 1);
         }
     }
 
-    private jumpKey(key: string): MotionAction {
-        key = key.toUpperCase();
-        let action: MotionAction = null;
-        if (this.indexSet == null) {
-            const searchRegex = new RegExp(escapeRegExp(key), "ig");
-            const text = vscode.window.activeTextEditor.document.getText();
-            let match;
-            const newIndexSet = [];
-            /* tslint:disable */
-            while (match = searchRegex.exec(text)) {
-                newIndexSet.push(match.index);
-            }
-            /* tslint:enable */
-            this.indexSet = setToLetterGroups(newIndexSet);
+    private async substitute(command: SubstituteCommand, lines: LineRange) {
+        const active = this.host.activeTextEditor;
+        const last = this.lastSubstitute;
+        let pattern = command.pattern;
+        let replacement = command.replacement;
+        if (replacement == null) {
+            // Without a pattern and replacement, the last substitute is repeated
+            if (!last)
+                throw new Error("E35: No previous regular expression");
+            pattern = last.pattern;
+            replacement = last.replacement;
         } else {
-            const newIndexSet = this.indexSet[key];
-            if (!newIndexSet || newIndexSet.length === 0) {
-                this.setMode(VimMode.Normal, true);
-                this.indexSet = null;
-                this.pseudoMode = null;
-            } else if (newIndexSet.length === 1) {
-                this.indexSet = null;
-                action = { type: "motion", motion: "jump", count: 1, target: newIndexSet[0] };
-            } else {
-                this.indexSet = setToLetterGroups(newIndexSet);
+            pattern = pattern || (this.lastSearch && this.lastSearch.pattern);
+            if (!pattern)
+                throw new Error("E35: No previous regular expression");
+            replacement = expandTilde(replacement, last ? last.replacement : "");
+        }
+        const flags = command.flags[0] === "&" ? (last ? last.flags : "") + command.flags.substring(1) : command.flags;
+        this.lastSubstitute = { pattern, replacement, flags };
+        this.lastSearch = { pattern, forward: this.lastSearch ? this.lastSearch.forward : true };
+
+        const caseFlag = flags.indexOf("i") !== -1 ? "\\c" : flags.indexOf("I") !== -1 ? "\\C" : "";
+        const substitutions = findSubstitutions(active.document.getText(), compilePattern(caseFlag + pattern), replacement,
+            active.document.offsetAt(new editor.Position(lines.start - 1, 0)),
+            active.document.offsetAt(active.document.lineAt(lines.end - 1).range.end),
+            flags.indexOf("g") !== -1);
+        if (substitutions.length === 0) {
+            // Lines without a match are no error for :g/pattern/s
+            if (flags.indexOf("e") === -1 && !this.globalSubstitutions)
+                throw new Error(`E486: Pattern not found: ${pattern}`);
+            return;
+        }
+
+        if (flags.indexOf("c") !== -1) {
+            if (this.globalSubstitutions)
+                throw new Error(":s with the c flag is not supported in :global");
+            this.substituteConfirm = { substitutions, index: 0, accepted: [], cursor: active.selection.active };
+            this.cmdline = { prompt: "", text: "", returnMode: VimMode.Normal };
+            this.setMode(VimMode.Cmdline, false);
+            return this.showSubstituteConfirm();
+        }
+        await this.applySubstitutions(substitutions);
+    }
+
+    // Makes every substitution in one edit, so they are undone together.
+    private async applySubstitutions(substitutions: Substitution[]) {
+        const active = this.host.activeTextEditor;
+        const document = active.document;
+        const ranges = substitutions.map(s => new editor.Range(document.positionAt(s.start), document.positionAt(s.end)));
+        const lineCount = ranges.map(r => r.start.line).filter((line, i, lines) => lines.indexOf(line) === i).length;
+        await active.edit(e => substitutions.forEach((s, i) => e.replace(ranges[i], s.text)));
+
+        // The cursor goes to the line the last substitution ends on, wherever the ones before it moved it
+        const last = substitutions[substitutions.length - 1];
+        const moved = substitutions.slice(0, -1).reduce((total, s) => total + s.text.length - (s.end - s.start), 0);
+        this.cursorToLine(document.positionAt(last.start + moved + last.text.length).line);
+        if (this.globalSubstitutions) {
+            this.globalSubstitutions.count += substitutions.length;
+            this.globalSubstitutions.lines += lineCount;
+        } else {
+            this.showSubstitutions(substitutions.length, lineCount);
+        }
+    }
+
+    private showSubstitutions(count: number, lineCount: number) {
+        this.showMessage(`${count} substitution${count === 1 ? "" : "s"} on ${lineCount} line${lineCount === 1 ? "" : "s"}`);
+    }
+
+    // Runs command on each line in lines with a match of pattern, or on each line without one when inverse is set, as
+    // :g and :v do. Everything the command changes is undone at once, as the edits of any one command are one step of
+    // the undo history.
+    private async global(pattern: string, command: string, lines: LineRange, inverse: boolean) {
+        if (this.globalLines)
+            throw new Error("E147: Cannot do :global recursive");
+        pattern = pattern || (this.lastSearch && this.lastSearch.pattern);
+        if (!pattern)
+            throw new Error("E35: No previous regular expression");
+        this.lastSearch = { pattern, forward: this.lastSearch ? this.lastSearch.forward : true };
+
+        const active = this.host.activeTextEditor;
+        const document = active.document;
+        const matching: { [line: number]: boolean } = {};
+        for (const match of findAll(document.getText(), compilePattern(pattern))) {
+            matching[document.positionAt(match.start).line + 1] = true;
+        }
+        // The lines are marked before the command runs on any of them, so that they can be found after it adds and
+        // deletes lines, and skipped when it deletes them
+        const marked: TrackedPosition[] = [];
+        for (let line = lines.start; line <= lines.end; line++) {
+            if (!matching[line] === inverse)
+                marked.push(this.positions.track(document.uri, new editor.Position(line - 1, 0)));
+        }
+        if (marked.length === 0) {
+            this.showMessage(inverse ? `Pattern found in every line: ${pattern}` : `Pattern not found: ${pattern}`);
+            return;
+        }
+
+        this.globalLines = marked;
+        this.globalSubstitutions = { count: 0, lines: 0 };
+        const substitutions = this.globalSubstitutions;
+        try {
+            for (const tracked of this.globalLines) {
+                const line = tracked.position;
+                if (!line)
+                    continue;
+                active.selection = new editor.Selection(line.line, 0, line.line, 0);
+                await this.exCommand(command);
+            }
+        } finally {
+            this.globalLines.forEach(tracked => this.positions.untrack(tracked));
+            this.globalLines = null;
+            this.globalSubstitutions = null;
+        }
+        if (substitutions.count > 0)
+            this.showSubstitutions(substitutions.count, substitutions.lines);
+    }
+
+    // The lines :marks shows for the marks in names, or every mark when names is empty: where each one is, and the
+    // text of its line, or the document it is in for a file mark set in another one.
+    private listMarks(names: string): string[] {
+        const document = this.host.activeTextEditor.document;
+        const marks = this.marks.list(document.uri).filter(m => !names || names.indexOf(m.name) !== -1 ||
+            (m.name === "'" && names.indexOf("`") !== -1));
+        if (names && marks.length === 0)
+            throw new Error(`E283: No marks matching "${names}"`);
+        return ["mark line  col file/text"].concat(marks.map(m => {
+            const position = m.mark.position;
+            return ` ${m.name} ${pad(String(position.line + 1), 6)} ${pad(String(position.character), 4)} ${this.positionText(m.mark)}`;
+        }));
+    }
+
+    // The lines :jumps and :changes show for the entries of a list, oldest first, each with how many moves away it is
+    // from current, which is marked with a '>'.
+    private listPositions(entries: TrackedPosition[], current: number, width: number): string[] {
+        const lines = entries.map((entry, i) => {
+            const position = entry.position;
+            return `${i === current ? ">" : " "} ${pad(String(Math.abs(current - i)), width)} ${pad(String(position.line + 1), 5)} ` +
+                `${pad(String(position.character), 4)} ${this.positionText(entry)}`;
+        });
+        return current === entries.length ? lines.concat(">") : lines;
+    }
+
+    // What listings show for a position: the text of its line, or its document when that is not the active one.
+    private positionText(mark: MarkPosition): string {
+        const document = this.host.activeTextEditor.document;
+        if (mark.uri !== document.uri)
+            return mark.uri;
+        return mark.position.line < document.lineCount ? document.lineAt(mark.position.line).text.trim() : "";
+    }
+
+    // Highlights the match :s with the c flag is asking about.
+    private showSubstituteConfirm() {
+        const active = this.host.activeTextEditor;
+        const substitution = this.substituteConfirm.substitutions[this.substituteConfirm.index];
+        const range = new editor.Range(active.document.positionAt(substitution.start), active.document.positionAt(substitution.end));
+        active.setDecorations(this.substituteDecoration, [range]);
+        active.selection = new editor.Selection(range.start, range.start);
+        active.revealRange(range);
+        this.showMessage(`replace with ${this.lastSubstitute.replacement} (y/n/a/q/l)?`);
+    }
+
+    private async substituteConfirmKey(key: string) {
+        const confirm = this.substituteConfirm;
+        const substitution = confirm.substitutions[confirm.index];
+        switch (key) {
+            case "y":
+                confirm.accepted.push(substitution);
+                confirm.index++;
+                break;
+            case "n":
+                confirm.index++;
+                break;
+            case "a":
+                confirm.accepted.push(...confirm.substitutions.slice(confirm.index));
+                confirm.index = confirm.substitutions.length;
+                break;
+            case "l":
+                // The last one: substitute this match and stop
+                confirm.accepted.push(substitution);
+                confirm.index = confirm.substitutions.length;
+                break;
+            case "q":
+            case "<esc>":
+                confirm.index = confirm.substitutions.length;
+                break;
+            default:
+                return;
+        }
+        if (confirm.index < confirm.substitutions.length)
+            return this.showSubstituteConfirm();
+
+        const active = this.host.activeTextEditor;
+        this.substituteConfirm = null;
+        active.setDecorations(this.substituteDecoration, []);
+        this.setMode(VimMode.Normal, true);
+        active.selection = new editor.Selection(confirm.cursor, confirm.cursor);
+        if (confirm.accepted.length > 0)
+            await this.applySubstitutions(confirm.accepted);
+        else
+            this.showMessage("");
+    }
+
+    // Resolves the addresses of Ex command ranges against the active editor.
+    private addressContext(): AddressContext {
+        const document = this.host.activeTextEditor.document;
+        return {
+            currentLine: this.host.activeTextEditor.selection.active.line + 1,
+            lineCount: document.lineCount,
+            markLine: name => {
+                const mark = this.marks.get(document.uri, name);
+                return mark && mark.uri === document.uri ? mark.position.line + 1 : null;
+            },
+            searchLine: (pattern, forward, line) => {
+                pattern = pattern || (this.lastSearch && this.lastSearch.pattern);
+                if (!pattern)
+                    throw new Error("E35: No previous regular expression");
+                this.lastSearch = { pattern, forward };
+                const lines = findAll(document.getText(), compilePattern(pattern)).map(m => document.positionAt(m.start).line + 1);
+                if (lines.length === 0)
+                    throw new Error(`E486: Pattern not found: ${pattern}`);
+                const next = forward ? lines.filter(l => l > line)[0] : lines.filter(l => l < line).pop();
+                return next != null ? next : (forward ? lines[0] : lines[lines.length - 1]);
+            },
+        };
+    }
+
+    // Types keys as :normal does, with the mappings applied to them unless remap is false, and ends whatever they leave
+    // unfinished as <esc> would. They go ahead of anything in the typeahead and are done once it is back to what it
+    // had before.
+    private async normalKeys(keys: string[], remap: boolean) {
+        const inserted = this.mapper.inserted;
+        this.mapper.insert(keys, remap);
+        while (this.mapper.inserted > inserted) {
+            if (!await this.handleInsertedKey())
+                break;
+        }
+        while (this.mode !== VimMode.Normal) {
+            await this.handleKey("<esc>");
+        }
+        this.setMode(VimMode.Normal, true);
+    }
+
+    // Performs an action in the current mode, as if its keys had just been typed.
+    private async performAction(command: VimAction) {
+        switch (this.mode) {
+            case VimMode.OperatorPending:
+                return this.eachCursor(command, () => this.operatorPendingAction(command));
+            case VimMode.Visual:
+            case VimMode.VisualLine:
+                return this.eachCursor(command, () => this.visualAction(command));
+            case VimMode.VisualBlock:
+                return this.visualBlockAction(command);
+            default:
+                await this.eachCursor(command, () => this.doNormalAction(command));
+        }
+    }
+
+    // Does an action, at each cursor on its own if it is one that is done that way.
+    private eachCursor(command: VimAction, action: () => Promise<any>): Promise<any> {
+        return isPerCursor(command, this.mode) ? this.forEachCursor(action) : action();
+    }
+
+    // Does an action at each cursor as if it were the only one, starting each time from the state the engine was in
+    // before the first, and leaves a cursor wherever each one ended. The edits are made to a copy of the document, so
+    // they reach the editor as one edit, with a change at each cursor.
+    private async forEachCursor(action: () => Promise<any>) {
+        const selections = this.host.activeTextEditor.selections;
+        if (selections.length < 2) {
+            this.cursorRegisters = null;
+            return action();
+        }
+        if (!this.cursorRegisters || this.cursorRegisters.length !== selections.length)
+            this.cursorRegisters = selections.map(() => this.registers.save());
+
+        const host = this.host;
+        // A macro being replayed is already working on a copy
+        const batch = host instanceof BatchHost ? null : new BatchHost(host);
+        const listener = batch ? batch.onDidChangeTextDocument(e => this.documentChanged(e)) : null;
+        if (batch)
+            this.host = batch;
+        // Cursors stay on their text as the commands at the other cursors edit it, even when their lines are deleted
+        const uri = this.host.activeTextEditor.document.uri;
+        this.cursorPositions = selections.map(s => ({ anchor: this.positions.track(uri, s.anchor, true), active: this.positions.track(uri, s.active, true) }));
+        const mode = this.mode;
+        const operatorPending = this.operatorPending;
+        const operatorCount = this.operatorCount;
+        const enteredCount = this.enteredCount;
+        const registerTarget = this.registerTarget;
+        const objectRange = this.objectRange;
+        try {
+            for (let i = 0; i < selections.length; i++) {
+                this.mode = mode;
+                this.operatorPending = operatorPending;
+                this.operatorCount = operatorCount;
+                this.enteredCount = enteredCount;
+                this.registerTarget = registerTarget;
+                this.objectRange = objectRange;
+                this.registers.restore(this.cursorRegisters[i]);
+                const active = this.host.activeTextEditor;
+                const cursor = this.cursorPositions[i];
+                active.selection = new editor.Selection(cursor.anchor.position, cursor.active.position);
+                await action();
+                cursor.anchor.position = active.selection.anchor;
+                cursor.active.position = active.selection.active;
+                this.cursorRegisters[i] = this.registers.save();
+            }
+        } finally {
+            // Cursors that ended up in the same place are one cursor, with the registers of the first of them
+            const cursors: editor.Selection[] = [];
+            const registers: RegisterState[] = [];
+            selections.forEach((s, i) => {
+                const cursor = new editor.Selection(this.cursorPositions[i].anchor.position, this.cursorPositions[i].active.position);
+                this.positions.untrack(this.cursorPositions[i].anchor);
+                this.positions.untrack(this.cursorPositions[i].active);
+                if (!cursors.some(c => c.isEqual(cursor))) {
+                    cursors.push(cursor);
+                    registers.push(this.cursorRegisters[i]);
+                }
+            });
+            // Outside of commands done at each cursor the registers are those of the first
+            this.registers.restore(registers[0]);
+            this.cursorRegisters = registers;
+            this.cursorPositions = null;
+            this.host.activeTextEditor.selections = cursors;
+            if (batch) {
+                listener.dispose();
+                await batch.flush();
+                this.host = host;
+            }
+        }
+    }
+
+    private showMessage(text: string) {
+        this.host.setStatusText(editor.StatusItem.Message, text);
+    }
+
+    // Highlights every match of pattern, or clears the highlights when it is null.
+    private highlightSearch(pattern: string) {
+        const active = this.host.activeTextEditor;
+        if (!active)
+            return;
+        let ranges: editor.Range[] = [];
+        if (pattern) {
+            try {
+                ranges = findAll(active.document.getText(), compilePattern(pattern)).filter(m => m.end > m.start).map(m =>
+                    new editor.Range(active.document.positionAt(m.start), active.document.positionAt(m.end)));
+            } catch (e) {
+                // A pattern still being typed may not be valid yet
             }
         }
+        active.setDecorations(this.searchDecoration, ranges);
+    }
 
-        if (this.indexSet) {
-            for (const v of Object.keys(this.indexSet)) {
-                vscode.window.activeTextEditor.setDecorations(this.decorators[v], this.indexSet[v].map(i => {
-                    let p = vscode.window.activeTextEditor.document.positionAt(i);
-                    return new vscode.Range(p.line, p.character, p.line, p.character + 1);
-                }));
+    // The motions to a match of a pattern: /, ?, n, N, *, #, g* and g#.
+    private searchMotion(doc: VimDocument, motion: MotionAction, index: number): Motion {
+        let pattern: string;
+        let forward: boolean;
+        let from = index;
+        if (motion.motion === "n" || motion.motion === "N") {
+            if (!this.lastSearch) {
+                this.showMessage("E35: No previous regular expression");
+                return null;
             }
+            pattern = this.lastSearch.pattern;
+            forward = this.lastSearch.forward === (motion.motion === "n");
+        } else if (motion.motion === "/" || motion.motion === "?") {
+            // An empty pattern searches for the last one again
+            pattern = motion.target || (this.lastSearch && this.lastSearch.pattern);
+            if (!pattern) {
+                this.showMessage("E35: No previous regular expression");
+                return null;
+            }
+            forward = motion.motion === "/";
+            this.lastSearch = { pattern, forward };
         } else {
-            for (const v of Object.keys(this.decorators)) {
-                vscode.window.activeTextEditor.setDecorations(this.decorators[v], []);
+            // The word under the cursor, as a whole word unless the motion starts with g
+            const word = doc.getWord(index);
+            if (!word || word.type === WordType.Whitespace) {
+                this.showMessage("E348: No string under cursor");
+                return null;
+            }
+            pattern = escapePattern(doc.getText().substring(word.start, word.end + 1));
+            if (word.type === WordType.Text && motion.motion.length === 1)
+                pattern = `\\<${pattern}\\>`;
+            forward = motion.motion.indexOf("*") !== -1;
+            from = word.start;
+            this.lastSearch = { pattern, forward };
+        }
+
+        let regex: RegExp;
+        try {
+            regex = compilePattern(pattern);
+        } catch (e) {
+            this.showMessage(e.message);
+            return null;
+        }
+        this.searchHighlighted = true;
+        this.highlightSearch(pattern);
+
+        let wrapped = false;
+        for (let i = 0; i < motion.count; i++) {
+            const next = findNext(doc.getText(), regex, from, forward);
+            if (!next) {
+                this.showMessage(`E486: Pattern not found: ${pattern}`);
+                return null;
             }
+            wrapped = wrapped || next.wrapped;
+            from = next.match.start;
         }
-        return action;
+        this.showMessage(wrapped ?
+            (forward ? "search hit BOTTOM, continuing at TOP" : "search hit TOP, continuing at BOTTOM") :
+            (forward ? "/" : "?") + pattern);
+        return { start: index, end: from, linewise: false, inclusive: false };
     }
 
     private async performOperation(operator: string, motion: Motion) {
-        const active = vscode.window.activeTextEditor;
-        const doc = new VimDocument(vscode.window.activeTextEditor.document);
+        if (!/^[cdy]$/.test(operator))
+            return this.transformText(operator, motion);
+        const active = this.host.activeTextEditor;
+        const doc = new VimDocument(this.host.activeTextEditor.document);
 
         if (motion.end < motion.start) {
             const temp = motion.start;
@@ -504,16 +1570,30 @@ export class Vim {
         if (motion.inclusive)
             motion.end++;
 
+        let register: VimRegister;
         if (motion.linewise) {
             const startLine = doc.getLineByIndex(motion.start);
             const endLine = doc.getLineByIndex(motion.end);
-            const text = active.document.getText(new vscode.Range(startLine.range.start, endLine.range.end)) + "\n";
-            this.registers[this.registerTarget] = { linewise: true, text };
+            const text = active.document.getText(new editor.Range(startLine.range.start, endLine.range.end)) + "\n";
+            register = { linewise: true, text };
         } else {
-            this.registers[this.registerTarget] = { linewise: false, text: doc.getText().substring(motion.start, motion.end) };
+            register = { linewise: false, text: doc.getText().substring(motion.start, motion.end) };
         }
+        if (operator === "y")
+            await this.registers.yank(this.registerTarget, register);
+        else
+            await this.registers.delete(this.registerTarget, register, !register.linewise && register.text.indexOf("\n") === -1);
 
         if (operator === "y") {
+            // '[ and '] go to the yanked text, as they do to changed text
+            const uri = active.document.uri;
+            this.marks.set(uri, "[", motion.linewise ? doc.getLineByIndex(motion.start).range.start : active.document.positionAt(motion.start));
+            this.marks.set(uri, "]", motion.linewise ? doc.getLineByIndex(motion.end).range.end :
+                active.document.positionAt(Math.max(motion.end - 1, motion.start)));
+            if (!motion.linewise) {
+                const start = active.document.positionAt(motion.start);
+                active.selection = new editor.Selection(start, start);
+            }
             this.setMode(VimMode.Normal, true);
         } else if (operator === "c" || operator === "d") {
             let motionIncludesLastLine = false;
@@ -529,22 +1609,17 @@ export class Vim {
                     motionIncludesFirstLine = startLineNumber === 0;
                     if (motionIncludesFirstLine && motionIncludesLastLine) {
                         // The range is the entire document, so just delete everything.
-                        this.registers[this.registerTarget] = { linewise: true, text: doc.getText() };
-                        e.delete(active.document.validateRange(new vscode.Range(new vscode.Position(0, 0), new vscode.Position(Infinity, Infinity))));
+                        e.delete(active.document.validateRange(new editor.Range(new editor.Position(0, 0), new editor.Position(Infinity, Infinity))));
                         return;
                     }
                     const startPosition = motionIncludesLastLine ?
                         active.document.lineAt(active.document.positionAt(motion.start).line - 1).range.end :
                         active.document.lineAt(active.document.positionAt(motion.start).line).rangeIncludingLineBreak.start;
-                    const endPosition = new vscode.Position(endLine.lineNumber + 1, 0);
-                    // TODO: Should go into a register
-                    // this.registers[this.registerTarget] = { linewise: true, text: active.document.getText(new vscode.Range(startPosition, endPosition)) };
-                    e.delete(new vscode.Range(startPosition, endPosition));
+                    const endPosition = new editor.Position(endLine.lineNumber + 1, 0);
+                    e.delete(new editor.Range(startPosition, endPosition));
                 } else {
-                    // TODO: Should go into a register
-                    // this.registers[this.registerTarget] = { linewise: false, text: doc.getText().substring(motion.start, motion.end) };
-                    e.delete(new vscode.Selection(active.document.positionAt(motion.start), active.document.positionAt(motion.end)));
-                    active.selection = new vscode.Selection(active.document.positionAt(motion.start), active.document.positionAt(motion.start));
+                    e.delete(new editor.Selection(active.document.positionAt(motion.start), active.document.positionAt(motion.end)));
+                    active.selection = new editor.Selection(active.document.positionAt(motion.start), active.document.positionAt(motion.start));
                 }
             });
             this.setMode(operator === "c" ? VimMode.Insert : VimMode.Normal, true);
@@ -552,23 +1627,28 @@ export class Vim {
             if (motion.linewise && operator === "c") {
                 if (motionIncludesLastLine) {
                     if (!motionIncludesFirstLine)
-                        await vscode.commands.executeCommand("editor.action.insertLineAfter");
+                        await this.host.executeCommand("editor.action.insertLineAfter");
                 } else {
-                    await vscode.commands.executeCommand("editor.action.insertLineBefore");
+                    await this.host.executeCommand("editor.action.insertLineBefore");
                 }
             } else if (motion.linewise && operator === "d") {
                 if (motionIncludesLastLine)
-                    await vscode.commands.executeCommand("cursorHome");
+                    await this.host.executeCommand("cursorHome");
             }
-            this.cleanSelection(vscode.window.activeTextEditor.selections);
+            this.cleanSelection(this.host.activeTextEditor.selections);
         }
     }
 
     private calculateMotion(doc: VimDocument, motion: MotionAction, index: number): Motion {
+        if (motion.motion.match(/^([\/?nN*#]|g\*|g#)$/))
+            return this.searchMotion(doc, motion, index);
+
         if (motion.motion === "`" || motion.motion === "'") {
-            if (!this.marks[motion.target])
+            const uri = this.host.activeTextEditor.document.uri;
+            const markPosition = this.marks.get(uri, motion.target);
+            if (!markPosition || markPosition.uri !== uri)
                 return null;
-            const mark = this.marks[motion.target];
+            const mark = this.host.activeTextEditor.document.validatePosition(markPosition.position);
             const linewise = motion.motion === "'";
             const endIndex =
                 doc.positionFromLine(mark.line, linewise ? doc.getLine(mark.line).firstNonWhitespaceCharacterIndex : mark.character).index;
@@ -617,19 +1697,30 @@ export class Vim {
 
     private async keyOperatorPending(key: string) {
         if (key === "<esc>") {
-            vscode.window.activeTextEditor.selections = vscode.window.activeTextEditor.selections.map(s =>
-                new vscode.Selection(s.active, s.active)
+            this.host.activeTextEditor.selections = this.host.activeTextEditor.selections.map(s =>
+                new editor.Selection(s.active, s.active)
             );
             return this.setMode(VimMode.Normal, true);
         }
 
-        const active = vscode.window.activeTextEditor;
-        const selStart = active.selection.start;
-        const doc = new VimDocument(vscode.window.activeTextEditor.document);
-
         const command = this.getNormalCommand(key);
-        if (!command)
-            return;
+        if (command)
+            await this.eachCursor(command, () => this.operatorPendingAction(command));
+    }
+
+    private async operatorPendingAction(command: VimAction) {
+        const active = this.host.activeTextEditor;
+        const selStart = active.selection.start;
+        const doc = new VimDocument(this.host.activeTextEditor.document);
+        // What . repeats: the operator with the whole count, typed before it, after it or both
+        const operator = this.operatorPending;
+        const change: RecordedChange = operator === "y" || operator === "zf" ? null : {
+            count: this.enteredCount || this.operatorCount ? Number(this.enteredCount || "1") * Number(this.operatorCount || "1") : null,
+            register: this.registerTarget,
+            action: command,
+            operator,
+            insert: "",
+        };
 
         if (command.type === "motion") {
             const motionCommand = command as MotionAction;
@@ -647,130 +1738,853 @@ export class Vim {
                     motionCommand.motion = "E";
             }
 
+            if (this.forcedMotion)
+                motionCommand.forced = this.forcedMotion;
             const motion = this.calculateMotion(doc, motionCommand, active.document.offsetAt(selStart));
             if (!motion) {
+                this.failed = true;
                 this.setMode(VimMode.Normal, true);
                 return;
             }
-
-            if (this.operatorPending === "c" || this.operatorPending === "d" || this.operatorPending === "y") {
-                await this.performOperation(this.operatorPending, motion);
-            } else {
-                this.setMode(VimMode.Normal, true);
+            if (motionCommand.motion === "w" || motionCommand.motion === "W") {
+                // The last word is taken from where the moves before it left off
+                const last = motionCommand.count > 1 ? this.calculateMotion(doc, { ...motionCommand, count: motionCommand.count - 1 }, motion.start) : null;
+                stopAtLineEnd(motion, last ? last.end : motion.start, active.document);
             }
+            if (motionCommand.forced)
+                forceMotion(motion, motionCommand.forced);
+            else
+                adjustExclusiveEnd(motion, active.document);
+
+            await this.performOperation(this.operatorPending, motion);
+            if (change)
+                this.recordChange(change);
         } else if (command.type === "object") {
             const objectCommand = command as ObjectAction;
-            const object = Vim.calculateObject(doc, objectCommand, active.document.offsetAt(selStart));
+            const object = calculateObject(doc, objectCommand, active.document.offsetAt(selStart), null);
             if (object) {
-                await active.edit(e => {
-                    e.delete(new vscode.Selection(active.document.positionAt(object.start), active.document.positionAt(object.end + 1)));
-                    active.selection = new vscode.Selection(active.document.positionAt(object.start), active.document.positionAt(object.start));
-
-                });
-                this.setMode(this.operatorPending === "c" ? VimMode.Insert : VimMode.Normal, true);
-                this.cleanSelection(vscode.window.activeTextEditor.selections);
+                await this.performOperation(this.operatorPending, object);
+                if (change)
+                    this.recordChange(change);
             } else {
+                this.failed = true;
                 this.setMode(VimMode.Normal, true);
             }
         }
     }
 
     private async visualKey(key: string) {
+        const active = this.host.activeTextEditor;
+        const linewise = this.mode === VimMode.VisualLine;
         if (key === "<esc>") {
-            vscode.window.activeTextEditor.selections = vscode.window.activeTextEditor.selections.map(s =>
-                new vscode.Selection(s.active, s.active)
-            );
+            if (linewise) {
+                active.selection = new editor.Selection(this.visualCursor, this.visualCursor);
+            } else {
+                active.selections = active.selections.map(s => new editor.Selection(s.active, s.active));
+            }
             return this.setMode(VimMode.Normal, true);
         }
 
-        const active = vscode.window.activeTextEditor;
-        const activeCursor = active.selection.active;
-        const doc = new VimDocument(vscode.window.activeTextEditor.document);
-
         const command = this.getNormalCommand(key);
-        if (!command)
-            return;
+        if (command)
+            await this.eachCursor(command, () => this.visualAction(command));
+    }
+
+    private async visualAction(command: VimAction) {
+        const active = this.host.activeTextEditor;
+        const linewise = this.mode === VimMode.VisualLine;
+        const activeCursor = linewise ? this.visualCursor : active.selection.active;
+        const doc = new VimDocument(this.host.activeTextEditor.document);
+        const change = isVisualChange(command) ? this.visualChange(command) : null;
 
         if (command.type === "motion") {
             const motion = this.calculateMotion(doc, command as MotionAction, active.document.offsetAt(activeCursor));
+            // The count was for this motion only
+            this.enteredCount = "";
+            this.failed = !motion;
             if (motion) {
-                if (motion.inclusive)
-                    motion.end++;
-                active.selection = new vscode.Selection(active.selection.anchor, active.document.positionAt(motion.end));
-                active.revealRange(active.selection);
+                if (linewise) {
+                    this.setVisualLine(this.visualAnchor, active.document.positionAt(motion.end));
+                } else {
+                    if (motion.inclusive)
+                        motion.end++;
+                    active.selection = new editor.Selection(active.selection.anchor, active.document.positionAt(motion.end));
+                    active.revealRange(active.selection);
+                }
+            }
+        } else if (command.type === "changeMode") {
+            const newMode = (command as ChangeModeAction).newMode;
+            if (newMode === (linewise ? "V" : "v")) {
+                // Typing the key of the current Visual mode leaves it
+                active.selection = new editor.Selection(activeCursor, activeCursor);
+                this.setMode(VimMode.Normal, true);
+            } else if (linewise) {
+                if (newMode === "<c-v>") {
+                    this.setVisualBlock(this.visualAnchor, this.visualCursor, false);
+                    return this.setMode(VimMode.VisualBlock, true);
+                }
+                const forward = this.visualCursor.isAfterOrEqual(this.visualAnchor);
+                const cursor = forward ? active.document.positionAt(active.document.offsetAt(this.visualCursor) + 1) : this.visualCursor;
+                active.selection = new editor.Selection(this.visualAnchor, cursor);
+                this.setMode(VimMode.Visual, true);
+            } else {
+                const selection = active.selection;
+                // The selection ends after the character the cursor is on
+                const cursor = selection.isReversed || selection.isEmpty ?
+                    selection.active : active.document.positionAt(active.document.offsetAt(selection.active) - 1);
+                if (newMode === "<c-v>") {
+                    this.setVisualBlock(selection.anchor, cursor, false);
+                    return this.setMode(VimMode.VisualBlock, true);
+                }
+                this.setVisualLine(selection.anchor, cursor);
+                this.setMode(VimMode.VisualLine, true);
             }
         } else if (command.type === "instant") {
             const instant = command as InstantAction;
-            const motion = {
-                start: active.document.offsetAt(active.selection.start),
-                end: active.document.offsetAt(active.selection.end),
-                linewise: false,
-                inclusive: false,
-            };
-            switch (instant.instant) {
+            const lines = this.visualLines();
+            const motion = this.visualMotion();
+            // Where the cursor goes after a yank: the start of the selection
+            const selectionStart = linewise ?
+                (this.visualAnchor.isBefore(this.visualCursor) ? this.visualAnchor : this.visualCursor) : active.selection.start;
+            let operator = instant.instant;
+            switch (operator) {
                 case "x":
-                    if (instant.instant === "x")
-                        instant.instant = "d";
+                    operator = "d";
+                case "s":
+                    if (operator === "s")
+                        operator = "c";
                 case "d":
                 case "c":
                 case "y":
-                    await this.performOperation(instant.instant, motion);
-                    active.selection = new vscode.Selection(active.selection.start, active.selection.start);
-                    this.setMode(instant.instant === "c" ? VimMode.Insert : VimMode.Normal, true);
+                    if (linewise) {
+                        await this.performOperation(operator, motion);
+                        if (operator === "y") {
+                            active.selection = new editor.Selection(selectionStart, selectionStart);
+                            this.setMode(VimMode.Normal, true);
+                        }
+                        break;
+                    }
+                    await this.performOperation(operator, motion);
+                    active.selection = new editor.Selection(active.selection.start, active.selection.start);
+                    this.setMode(operator === "c" ? VimMode.Insert : VimMode.Normal, true);
                     break;
 
                 case "X":
-                    if (instant.instant === "X")
-                        instant.instant = "D";
+                    operator = "D";
                 case "R":
-                    if (instant.instant === "R")
-                        instant.instant = "C";
+                case "S":
+                    if (operator !== "D")
+                        operator = "C";
                 case "D":
                 case "C":
                 case "Y":
                     motion.linewise = true;
-                    await this.performOperation(instant.instant.toLowerCase(), motion);
-                    const startLine = new vscode.Position(active.selection.start.line, 0);
-                    active.selection = new vscode.Selection(startLine, startLine);
-                    this.setMode(instant.instant === "C" ? VimMode.Insert : VimMode.Normal, true);
+                    await this.performOperation(operator.toLowerCase(), motion);
+                    if (linewise && operator === "Y") {
+                        active.selection = new editor.Selection(selectionStart, selectionStart);
+                    } else if (!linewise) {
+                        const startLine = new editor.Position(active.selection.start.line, 0);
+                        active.selection = new editor.Selection(startLine, startLine);
+                    }
+                    this.setMode(operator === "C" ? VimMode.Insert : VimMode.Normal, true);
                     break;
 
                 case "u":
                 case "U":
+                    const caseRange = linewise ? this.visualLineSelection() : active.selection;
                     await active.edit(e => {
-                        const text = active.document.getText(active.selection);
-                        e.replace(active.selection, instant.instant === "U" ? text.toUpperCase() : text.toLowerCase());
+                        const text = active.document.getText(caseRange);
+                        e.replace(caseRange, operator === "U" ? text.toUpperCase() : text.toLowerCase());
                     });
-                    active.selection = new vscode.Selection(active.selection.start, active.selection.start);
+                    active.selection = new editor.Selection(caseRange.start, caseRange.start);
+                    this.setMode(VimMode.Normal, true);
+                    break;
+
+                case "J":
+                    await this.joinLines(lines.start, Math.max(lines.end - lines.start + 1, 2));
                     this.setMode(VimMode.Normal, true);
                     break;
 
+                case ">":
+                case "<":
+                    await this.shiftLines(lines.start, lines.end, operator, instant.count);
+                    this.setMode(VimMode.Normal, true);
+                    break;
+
+                case "=":
+                    await this.transformText(operator, motion);
+                    break;
+
+                case "gb":
+                    this.cursorsOnLines(lines.start, lines.end, this.visualCursorPosition().character);
+                    break;
+
+                case "p":
+                    await this.putOverSelection(instant);
+                    break;
+
+                case "o":
+                    if (linewise) {
+                        this.setVisualLine(this.visualCursor, this.visualAnchor);
+                    } else {
+                        active.selection = new editor.Selection(active.selection.active, active.selection.anchor);
+                    }
+                    break;
+
                 default:
                     return;
             }
+        } else if (command.type === "operator") {
+            // gu, gU, g? and zf work on the selection
+            await this.transformText((command as OperatorAction).operator, this.visualMotion());
         } else if (command.type === "replace") {
-            const text = active.document.getText(active.selection).replace(/[^\r\n]/g, (command as ReplaceAction).replace);
+            const range = linewise ? this.visualLineSelection() : active.selection;
+            const text = active.document.getText(range).replace(/[^\r\n]/g, (command as ReplaceAction).replace);
             await active.edit(e => {
-                e.replace(active.selection, text);
+                e.replace(range, text);
             });
-            active.selection = new vscode.Selection(active.selection.start, active.selection.start);
+            active.selection = new editor.Selection(range.start, range.start);
             this.setMode(VimMode.Normal, true);
         } else if (command.type === "object") {
             const objectCommand = command as ObjectAction;
-            const object = Vim.calculateObject(doc, objectCommand, active.document.offsetAt(activeCursor));
-            if (object) {
-                const newRange = active.selection.union(new vscode.Range(active.document.positionAt(object.start), active.document.positionAt(object.end)));
-                active.selection = new vscode.Selection(newRange.start, newRange.end);
+            const selection = linewise ? this.visualLineSelection() : active.selection;
+            const selected = selection.isEmpty ? null :
+                { start: active.document.offsetAt(selection.start), end: active.document.offsetAt(selection.end) };
+            const object = calculateObject(doc, objectCommand, active.document.offsetAt(activeCursor), selected);
+            if (!object) {
+                this.failed = true;
+            } else if (object.linewise) {
+                // A linewise object, like a paragraph, is selected in Visual Line mode
+                this.setVisualLine(active.document.positionAt(object.start), active.document.positionAt(object.end));
+                this.setMode(VimMode.VisualLine, false);
+            } else {
+                if (linewise) {
+                    // Other objects are characterwise, so selecting one leaves Visual Line mode
+                    active.selection = new editor.Selection(this.visualAnchor, this.visualCursor);
+                    this.setMode(VimMode.Visual, false);
+                }
+                const end = object.inclusive ? object.end + 1 : object.end;
+                const newRange = active.selection.union(new editor.Range(active.document.positionAt(object.start), active.document.positionAt(end)));
+                active.selection = new editor.Selection(newRange.start, newRange.end);
                 active.revealRange(active.selection);
             }
         }
+        if (change)
+            this.recordChange(change);
+    }
+
+    // A change about to be made in a Visual mode, as . repeats it.
+    private visualChange(command: VimAction): RecordedChange {
+        const count = this.enteredCount ? Number(this.enteredCount) : null;
+        return { count, register: this.registerTarget, action: command, visual: this.visualSize(), insert: "" };
+    }
+
+    private async visualBlockKey(key: string) {
+        const active = this.host.activeTextEditor;
+        if (key === "<esc>") {
+            active.selection = new editor.Selection(this.visualCursor, this.visualCursor);
+            return this.setMode(VimMode.Normal, true);
+        }
+
+        const command = this.getNormalCommand(key);
+        if (command)
+            await this.visualBlockAction(command);
+    }
+
+    private async visualBlockAction(command: VimAction) {
+        const active = this.host.activeTextEditor;
+        const doc = new VimDocument(this.host.activeTextEditor.document);
+        const block = blockFromCorners(this.visualAnchor, this.visualCursor, this.visualBlockToEnd);
+        const topLeft = active.document.validatePosition(new editor.Position(block.startLine, block.startColumn));
+        const change = isVisualChange(command) ? this.visualChange(command) : null;
+        if (command.type === "motion") {
+            const motionCommand = command as MotionAction;
+            const motion = this.calculateMotion(doc, motionCommand, active.document.offsetAt(this.visualCursor));
+            this.enteredCount = "";
+            this.failed = !motion;
+            if (motion) {
+                // After $ the block reaches the end of every line until the cursor moves sideways
+                const toEnd = motionCommand.motion === "$" || (this.visualBlockToEnd && /^[jk]$/.test(motionCommand.motion));
+                this.setVisualBlock(this.visualAnchor, active.document.positionAt(motion.end), toEnd);
+            }
+        } else if (command.type === "changeMode") {
+            const newMode = (command as ChangeModeAction).newMode;
+            if (newMode === "v") {
+                const forward = this.visualCursor.isAfterOrEqual(this.visualAnchor);
+                const cursor = forward ? active.document.positionAt(active.document.offsetAt(this.visualCursor) + 1) : this.visualCursor;
+                active.selection = new editor.Selection(this.visualAnchor, cursor);
+                this.setMode(VimMode.Visual, true);
+            } else if (newMode === "V") {
+                this.setVisualLine(this.visualAnchor, this.visualCursor);
+                this.setMode(VimMode.VisualLine, true);
+            } else {
+                active.selection = new editor.Selection(this.visualCursor, this.visualCursor);
+                this.setMode(VimMode.Normal, true);
+            }
+        } else if (command.type === "instant") {
+            const instant = command as InstantAction;
+            // X, D and C work on the block extended to the end of every line
+            const target = /^[XDC]$/.test(instant.instant) ? blockFromCorners(this.visualAnchor, this.visualCursor, true) : block;
+            const ranges = blockRanges(active.document, target);
+            // Lines too short to reach the block are left alone by everything but A
+            const reached = ranges.filter(r => !r.isEmpty);
+            switch (instant.instant) {
+                case "x":
+                case "X":
+                case "d":
+                case "D":
+                case "s":
+                case "c":
+                case "C":
+                case "y":
+                    const register = { linewise: false, blockwise: true, text: blockText(active.document, target) };
+                    if (instant.instant === "y")
+                        await this.registers.yank(this.registerTarget, register);
+                    else
+                        await this.registers.delete(this.registerTarget, register, target.startLine === target.endLine);
+                    if (instant.instant !== "y")
+                        await active.edit(e => reached.forEach(r => e.delete(r)));
+                    if (/^[scC]$/.test(instant.instant)) {
+                        this.blockInsert(reached.map(r => r.start), topLeft);
+                    } else {
+                        active.selection = new editor.Selection(topLeft, topLeft);
+                        this.setMode(VimMode.Normal, true);
+                    }
+                    break;
+
+                case "R":
+                case "S":
+                case "Y":
+                    await this.performOperation(instant.instant === "Y" ? "y" : "c", {
+                        start: active.document.offsetAt(new editor.Position(block.startLine, 0)),
+                        end: active.document.offsetAt(new editor.Position(block.endLine, 0)),
+                        linewise: true,
+                        inclusive: false,
+                    });
+                    if (instant.instant === "Y")
+                        active.selection = new editor.Selection(topLeft, topLeft);
+                    break;
+
+                case "I":
+                    this.blockInsert(reached.map(r => r.start), topLeft);
+                    break;
+
+                case "A":
+                    // Short lines are padded out to the end of the block, unless $ made the block ragged
+                    const column = block.endColumn + 1;
+                    const padding = this.visualBlockToEnd ? [] : ranges.filter(r => r.end.character < column);
+                    if (padding.length > 0) {
+                        await active.edit(e => padding.forEach(r =>
+                            e.insert(r.end, new Array(column - r.end.character + 1).join(" "))));
+                    }
+                    const appendAt = ranges.map(r => this.visualBlockToEnd ?
+                        active.document.lineAt(r.start.line).range.end : new editor.Position(r.start.line, column));
+                    this.blockInsert(appendAt, appendAt[0]);
+                    break;
+
+                case "u":
+                case "U":
+                    await active.edit(e => reached.forEach(r => {
+                        const text = active.document.getText(r);
+                        e.replace(r, instant.instant === "U" ? text.toUpperCase() : text.toLowerCase());
+                    }));
+                    active.selection = new editor.Selection(topLeft, topLeft);
+                    this.setMode(VimMode.Normal, true);
+                    break;
+
+                case "J":
+                    await this.joinLines(block.startLine, Math.max(block.endLine - block.startLine + 1, 2));
+                    this.setMode(VimMode.Normal, true);
+                    break;
+
+                case ">":
+                case "<":
+                    await this.shiftLines(block.startLine, block.endLine, instant.instant, instant.count);
+                    this.setMode(VimMode.Normal, true);
+                    break;
+
+                case "=":
+                    await this.transformText("=", this.visualMotion());
+                    break;
+
+                case "gb":
+                    this.cursorsOnLines(block.startLine, block.endLine, block.startColumn);
+                    break;
+
+                case "o":
+                    this.setVisualBlock(this.visualCursor, this.visualAnchor, this.visualBlockToEnd);
+                    break;
+
+                case "O":
+                    // The other corner on the same line
+                    this.setVisualBlock(new editor.Position(this.visualAnchor.line, this.visualCursor.character),
+                        new editor.Position(this.visualCursor.line, this.visualAnchor.character), this.visualBlockToEnd);
+                    break;
+
+                default:
+                    return;
+            }
+        } else if (command.type === "operator") {
+            const operator = (command as OperatorAction).operator;
+            if (operator === "zf") {
+                await this.transformText(operator, this.visualMotion());
+            } else {
+                // gu, gU and g? change the text of each line in the block
+                await active.edit(e => blockRanges(active.document, block).filter(r => !r.isEmpty).forEach(r =>
+                    e.replace(r, changeCase(operator, active.document.getText(r)))));
+                active.selection = new editor.Selection(topLeft, topLeft);
+                this.setMode(VimMode.Normal, true);
+            }
+        } else if (command.type === "replace") {
+            const replace = (command as ReplaceAction).replace;
+            await active.edit(e => blockRanges(active.document, block).filter(r => !r.isEmpty).forEach(r =>
+                e.replace(r, new Array(r.end.character - r.start.character + 1).join(replace))));
+            active.selection = new editor.Selection(topLeft, topLeft);
+            this.setMode(VimMode.Normal, true);
+        }
+        if (change)
+            this.recordChange(change);
+    }
+
+    // Where the cursor is in a Visual mode. In Visual mode the selection ends after the character it is on.
+    private visualCursorPosition(): editor.Position {
+        const active = this.host.activeTextEditor;
+        if (this.mode !== VimMode.Visual)
+            return this.visualCursor;
+        const selection = active.selection;
+        return selection.isReversed || selection.isEmpty ? selection.active : active.document.positionAt(active.document.offsetAt(selection.active) - 1);
+    }
+
+    // Puts a cursor at column on each line from start to end, or at the end of lines too short to reach it, and
+    // leaves the Visual mode.
+    private cursorsOnLines(start: number, end: number, column: number) {
+        const active = this.host.activeTextEditor;
+        const cursors: editor.Selection[] = [];
+        for (let line = start; line <= end; line++) {
+            const character = Math.max(Math.min(column, active.document.lineAt(line).text.length - 1), 0);
+            cursors.push(new editor.Selection(line, character, line, character));
+        }
+        active.selections = cursors;
+        this.cursorRegisters = null;
+        this.setMode(VimMode.Normal, true);
+    }
+
+    // Adds a cursor to the next match of the word under the last cursor that does not have one, as gb does. The
+    // match is searched for as * does, and the cursor goes as far into it as the last one is into its word.
+    private addCursorAtNextMatch() {
+        const active = this.host.activeTextEditor;
+        const doc = new VimDocument(active.document);
+        const selections = active.selections;
+        const index = active.document.offsetAt(selections[selections.length - 1].active);
+        const word = doc.getWord(index);
+        if (!word || word.type === WordType.Whitespace) {
+            this.failed = true;
+            return this.showMessage("E348: No string under cursor");
+        }
+        let pattern = escapePattern(doc.getText().substring(word.start, word.end + 1));
+        if (word.type === WordType.Text)
+            pattern = `\\<${pattern}\\>`;
+        const matches = findAll(doc.getText(), compilePattern(pattern));
+        const cursors = selections.map(s => active.document.offsetAt(s.active));
+        // Searching from the word on, going round to the start of the document
+        const next = matches.filter(m => m.start > word.start).concat(matches.filter(m => m.start <= word.start))
+            .filter(m => !cursors.some(c => c >= m.start && c < m.end))[0];
+        if (!next) {
+            this.failed = true;
+            return;
+        }
+        const position = active.document.positionAt(Math.min(next.start + index - word.start, next.end - 1));
+        active.selections = selections.concat([new editor.Selection(position, position)]);
+        this.cursorRegisters = null;
+        active.revealRange(new editor.Range(position, position));
+    }
+
+    private isVisual(): boolean {
+        return this.mode === VimMode.Visual || this.mode === VimMode.VisualLine || this.mode === VimMode.VisualBlock;
+    }
+
+    private isReplace(): boolean {
+        return this.mode === VimMode.Replace || this.mode === VimMode.VirtualReplace;
+    }
+
+    // The text a Visual mode selects, as a motion for an operator. In Visual Block mode, the lines of the block.
+    private visualMotion(): Motion {
+        const document = this.host.activeTextEditor.document;
+        if (this.mode === VimMode.Visual) {
+            const selection = this.host.activeTextEditor.selection;
+            return { start: document.offsetAt(selection.start), end: document.offsetAt(selection.end), linewise: false, inclusive: false };
+        }
+        const lines = this.mode === VimMode.VisualBlock ? blockFromCorners(this.visualAnchor, this.visualCursor, false) : null;
+        const startLine = lines ? lines.startLine : this.visualLines().start;
+        const endLine = lines ? lines.endLine : this.visualLines().end;
+        return {
+            start: document.offsetAt(new editor.Position(startLine, 0)),
+            end: document.offsetAt(new editor.Position(endLine, 0)),
+            linewise: true,
+            inclusive: false,
+        };
+    }
+
+    private setVisualBlock(anchor: editor.Position, cursor: editor.Position, toEnd: boolean) {
+        const active = this.host.activeTextEditor;
+        this.visualAnchor = anchor;
+        this.visualCursor = active.document.validatePosition(cursor);
+        this.visualBlockToEnd = toEnd;
+        active.selections = blockSelections(active.document, this.visualAnchor, this.visualCursor, toEnd);
+        active.revealRange(new editor.Range(this.visualCursor, this.visualCursor));
+    }
+
+    // Starts Insert mode with a cursor at each position, so what is typed goes on every line of the block at once.
+    private blockInsert(positions: editor.Position[], start: editor.Position) {
+        this.host.activeTextEditor.selections = (positions.length > 0 ? positions : [start]).map(p => new editor.Selection(p, p));
+        this.setMode(VimMode.Insert, true);
+        this.blockInsertStart = start;
+    }
+
+    // Ends Insert mode, as <esc> does.
+    private async leaveInsert() {
+        this.insertedText = this.lastInsertedTest;
+        if (this.insertingChange)
+            await this.finishInsert();
+        this.marks.set(this.host.activeTextEditor.document.uri, "^", this.host.activeTextEditor.selection.active);
+        if (this.blockInsertStart) {
+            // The text was typed on every line of the block at once, the cursor goes to where it starts
+            const start = this.host.activeTextEditor.document.validatePosition(this.blockInsertStart);
+            this.host.activeTextEditor.selection = new editor.Selection(start, start);
+        } else {
+            this.host.activeTextEditor.selections = this.host.activeTextEditor.selections.map(s => {
+                const col = Math.max(s.start.character - 1, 0);
+                return new editor.Selection(s.start.line, col, s.start.line, col);
+            });
+        }
+        this.setMode(VimMode.Normal, true);
+    }
+
+    // Adds what was typed to the change that started Insert mode, and types it again as many more times as the count
+    // of 3i and the like asks for.
+    private async finishInsert() {
+        const change = this.insertingChange;
+        this.insertingChange = null;
+        change.insert = this.lastInsertedTest;
+        const action = change.action as ChangeModeAction;
+        if (action.type === "changeMode" && change.count > 1 && change.insert) {
+            const separator = /^[oO]$/.test(action.newMode) ? "\n" : "";
+            await this.typeText(new Array(change.count).join(separator + change.insert));
+        }
+    }
+
+    // Types text the way the current mode does: inserting it, or over the text after the cursor in Replace mode.
+    private async typeText(text: string) {
+        if (this.isReplace())
+            await this.replaceText(text);
+        else
+            await this.host.executeCommand("default:type", { text });
+    }
+
+    // Types text over the characters after each cursor, as Replace mode does. Past the end of the line and for a line
+    // break the text is added instead. In Virtual Replace mode a tab is only replaced once the text typed over it
+    // takes up all the columns it did.
+    private async replaceText(text: string) {
+        const active = this.host.activeTextEditor;
+        for (const c of text) {
+            const cursors = active.selections.map(s => s.active);
+            const replaced = cursors.map(cursor => {
+                const line = active.document.lineAt(cursor.line).text;
+                const replaced = c === "\n" || cursor.character >= line.length ? "" : line[cursor.character];
+                if (replaced === "\t" && c !== "\t" && this.mode === VimMode.VirtualReplace) {
+                    // The columns from the cursor to the next tab stop
+                    const column = screenColumn(line, cursor.character, active.tabSize);
+                    if (active.tabSize - column % active.tabSize > 1)
+                        return "";
+                }
+                return replaced;
+            });
+            const ranges = cursors.map((cursor, i) => new editor.Range(cursor, cursor.translate(0, replaced[i].length)));
+            const starts = await this.replaceRanges(ranges, cursors.map(() => c));
+            active.selections = starts.map(start => {
+                const end = active.document.positionAt(start + c.length);
+                return new editor.Selection(end, end);
+            });
+            this.replacedText.push(replaced);
+        }
+    }
+
+    // <bs> in Replace mode: puts back the character the last typed one replaced at each cursor. Before where Replace
+    // mode started it only moves the cursors.
+    private async replaceBackspace() {
+        const active = this.host.activeTextEditor;
+        const cursors = active.selections.map(s => s.active);
+        if (this.replacedText.length === 0) {
+            active.selections = cursors.map(cursor => {
+                const previous = cursor.character > 0 ? cursor.translate(0, -1) : cursor;
+                return new editor.Selection(previous, previous);
+            });
+            return;
+        }
+        const original = this.replacedText.pop();
+        const ranges = cursors.map(cursor =>
+            new editor.Range(cursor.character > 0 ? cursor.translate(0, -1) : active.document.lineAt(cursor.line - 1).range.end, cursor));
+        const starts = await this.replaceRanges(ranges, cursors.map((cursor, i) => original[i] || ""));
+        active.selections = starts.map(start => {
+            const previous = active.document.positionAt(start);
+            return new editor.Selection(previous, previous);
+        });
+    }
+
+    // Replaces each range with its text in one edit, and gives the offsets the texts start at after it.
+    private async replaceRanges(ranges: editor.Range[], texts: string[]): Promise<number[]> {
+        const active = this.host.activeTextEditor;
+        const starts = ranges.map(r => active.document.offsetAt(r.start));
+        const ends = ranges.map(r => active.document.offsetAt(r.end));
+        await active.edit(e => ranges.forEach((r, i) => e.replace(r, texts[i])));
+        // Each text moves by how much longer the ones before it made the text
+        return starts.map(start => starts.reduce((shift, s, i) => s < start ? shift + texts[i].length - (ends[i] - s) : shift, start));
+    }
+
+    // The operators that change text in place instead of taking it out: > and < shift the lines, = formats them, gu,
+    // gU and g? change the case or rot13 the text, and zf makes a fold of the lines.
+    private async transformText(operator: string, motion: Motion) {
+        const active = this.host.activeTextEditor;
+        const document = active.document;
+        const start = Math.min(motion.start, motion.end);
+        const end = Math.max(motion.start, motion.end) + (motion.inclusive ? 1 : 0);
+        const startLine = document.positionAt(start).line;
+        // A motion that ends at the start of a line does not take that line in
+        const endPosition = document.positionAt(end);
+        const endLine = !motion.linewise && endPosition.character === 0 && end > start ? endPosition.line - 1 : endPosition.line;
+        const firstLine = new editor.Position(startLine, 0);
+
+        switch (operator) {
+            case ">":
+            case "<":
+                await this.shiftLines(startLine, endLine, operator, 1);
+                break;
+
+            case "=":
+            case "zf":
+                active.selection = new editor.Selection(firstLine, document.lineAt(endLine).range.end);
+                await this.host.executeCommand(operator === "=" ? "editor.action.formatSelection" : "editor.createFoldingRangeFromSelection");
+                const indented = new editor.Position(startLine, active.document.lineAt(startLine).firstNonWhitespaceCharacterIndex);
+                active.selection = operator === "=" ? new editor.Selection(indented, indented) : new editor.Selection(firstLine, firstLine);
+                break;
+
+            case "gu":
+            case "gU":
+            case "g?":
+                const range = motion.linewise ?
+                    new editor.Range(firstLine, document.lineAt(endLine).range.end) :
+                    new editor.Range(document.positionAt(start), document.positionAt(end));
+                const text = document.getText(range);
+                const changed = changeCase(operator, text);
+                if (changed !== text) {
+                    await active.edit(e => {
+                        e.replace(range, changed);
+                    });
+                }
+                active.selection = new editor.Selection(range.start, range.start);
+                break;
+
+            default:
+                break;
+        }
+        this.setMode(VimMode.Normal, true);
+    }
+
+    // Shifts the lines from startLine to endLine count times, the way > and < do.
+    private async shiftLines(startLine: number, endLine: number, operator: string, count: number) {
+        const active = this.host.activeTextEditor;
+        const firstLine = new editor.Position(startLine, 0);
+        active.selection = new editor.Selection(firstLine, active.document.lineAt(endLine).range.end);
+        for (let i = 0; i < count; i++) {
+            await this.host.executeCommand(operator === ">" ? "editor.action.indentLines" : "editor.action.outdentLines");
+        }
+        const indented = new editor.Position(startLine, active.document.lineAt(startLine).firstNonWhitespaceCharacterIndex);
+        active.selection = new editor.Selection(indented, indented);
+    }
+
+    // The selection that shows the lines between visualAnchor and visualCursor.
+    private visualLineSelection(): editor.Selection {
+        const document = this.host.activeTextEditor.document;
+        const anchorLine = document.lineAt(document.validatePosition(this.visualAnchor));
+        const cursorLine = document.lineAt(document.validatePosition(this.visualCursor));
+        if (cursorLine.lineNumber < anchorLine.lineNumber)
+            return new editor.Selection(anchorLine.rangeIncludingLineBreak.end, cursorLine.range.start);
+        return new editor.Selection(anchorLine.range.start, cursorLine.rangeIncludingLineBreak.end);
+    }
+
+    private setVisualLine(anchor: editor.Position, cursor: editor.Position) {
+        const active = this.host.activeTextEditor;
+        this.visualAnchor = anchor;
+        this.visualCursor = active.document.validatePosition(cursor);
+        active.selection = this.visualLineSelection();
+        active.revealRange(new editor.Range(this.visualCursor, this.visualCursor));
+    }
+
+    // The first and last line touched by the Visual selection.
+    private visualLines(): { start: number, end: number } {
+        if (this.mode === VimMode.VisualLine || this.mode === VimMode.VisualBlock) {
+            return {
+                start: Math.min(this.visualAnchor.line, this.visualCursor.line),
+                end: Math.max(this.visualAnchor.line, this.visualCursor.line),
+            };
+        }
+        const selection = this.host.activeTextEditor.selection;
+        return { start: selection.start.line, end: selection.end.line };
+    }
+
+    // Replaces the Visual selection with the contents of a register.
+    private async putOverSelection(instant: InstantAction) {
+        const active = this.host.activeTextEditor;
+        const reg = await this.registers.read(instant.register);
+        if (!reg)
+            return this.setMode(VimMode.Normal, true);
+
+        const linewise = this.mode === VimMode.VisualLine;
+        const range = linewise ? active.document.validateRange(this.visualLineSelection()) : active.selection;
+        const replaced = active.document.getText(range);
+        let text = new Array(instant.count + 1).join(reg.text);
+        if (linewise) {
+            // The selection covers the line break after the last line unless it is the last line of the document
+            const endsWithLineBreak = /\n$/.test(replaced);
+            if (reg.linewise && !endsWithLineBreak)
+                text = text.replace(/\n$/, "");
+            else if (!reg.linewise && endsWithLineBreak)
+                text += "\n";
+        } else if (reg.linewise) {
+            text = "\n" + text;
+        }
+        await active.edit(e => e.replace(range, text));
+        // The text that was replaced is deleted into the registers like any other
+        const replacedRegister = { linewise, text: linewise && !/\n$/.test(replaced) ? replaced + "\n" : replaced };
+        await this.registers.delete('"', replacedRegister, !linewise && replaced.indexOf("\n") === -1);
+
+        const startLine = linewise || reg.linewise ? range.start.line + (linewise ? 0 : 1) : range.start.line;
+        const cursor = linewise || reg.linewise ?
+            new editor.Position(startLine, active.document.lineAt(startLine).firstNonWhitespaceCharacterIndex) :
+            active.document.positionAt(active.document.offsetAt(range.start) + text.length - 1);
+        active.selection = new editor.Selection(cursor, cursor);
+        this.setMode(VimMode.Normal, true);
+    }
+
+    // Joins count lines starting at startLine, the way J does. Without insertSpaces the lines are joined as they are.
+    private async joinLines(startLine: number, count: number, insertSpaces = true) {
+        const active = this.host.activeTextEditor;
+        const endLine = Math.min(startLine + count - 1, active.document.lineCount - 1);
+        if (endLine === startLine)
+            return;
+
+        let text = active.document.lineAt(startLine).text;
+        let column = 0;
+        for (let i = startLine + 1; i <= endLine; i++) {
+            column = text.length;
+            if (!insertSpaces) {
+                text += active.document.lineAt(i).text;
+                continue;
+            }
+            const next = active.document.lineAt(i).text.replace(/^\s+/, "");
+            if (next.length > 0 && text.length > 0 && !/\s$/.test(text) && next[0] !== ")") {
+                text += " ";
+            } else if (next.length === 0) {
+                column = Math.max(text.length - 1, 0);
+            }
+            text += next;
+        }
+        const range = new editor.Range(new editor.Position(startLine, 0), active.document.lineAt(endLine).range.end);
+        await active.edit(e => e.replace(range, text));
+        const cursor = new editor.Position(startLine, column);
+        active.selection = new editor.Selection(cursor, cursor);
+    }
+
+    // Moves the lines of range (numbered from 1) below the line destination, the way :m does.
+    private async moveLines(range: LineRange, destination: number) {
+        const active = this.host.activeTextEditor;
+        const document = active.document;
+        if (destination === range.start - 1 || destination === range.end)
+            return this.cursorToLine(range.end - 1);
+        const lines: string[] = [];
+        for (let line = range.start; line <= range.end; line++) {
+            lines.push(document.lineAt(line - 1).text);
+        }
+        // Deleting the lines and inserting them elsewhere leaves the lines in between, and their marks, alone
+        const deleted = range.end < document.lineCount ?
+            new editor.Range(new editor.Position(range.start - 1, 0), new editor.Position(range.end, 0)) :
+            new editor.Range(document.lineAt(range.start - 2).range.end, document.lineAt(range.end - 1).range.end);
+        await active.edit(e => {
+            e.delete(deleted);
+            if (destination === 0)
+                e.insert(new editor.Position(0, 0), lines.join("\n") + "\n");
+            else
+                e.insert(document.lineAt(destination - 1).range.end, "\n" + lines.join("\n"));
+        });
+        this.cursorToLine((destination < range.start ? destination + lines.length : destination) - 1);
+    }
+
+    // Copies the lines of range (numbered from 1) below the line destination, the way :t does.
+    private async copyLines(range: LineRange, destination: number) {
+        const active = this.host.activeTextEditor;
+        const lines: string[] = [];
+        for (let line = range.start; line <= range.end; line++) {
+            lines.push(active.document.lineAt(line - 1).text);
+        }
+        await active.edit(e => destination === 0 ?
+            e.insert(new editor.Position(0, 0), lines.join("\n") + "\n") :
+            e.insert(active.document.lineAt(destination - 1).range.end, "\n" + lines.join("\n")));
+        this.cursorToLine(destination + lines.length - 1);
+    }
+
+    // Sets the ' mark to where a jump was made from and adds it to the jumplist.
+    private recordJump(from: MarkPosition) {
+        this.marks.set(from.uri, "'", from.position);
+        this.jumpList.add(from.uri, from.position);
+    }
+
+    // Goes count jumps forward in the jumplist, or back when count is negative, to another document if need be.
+    private async goToJump(count: number) {
+        const active = this.host.activeTextEditor;
+        const jump = this.jumpList.jump(count, active.document.uri, active.selection.active);
+        const shown = jump && (jump.uri === active.document.uri ? active : await this.host.showDocument(jump.uri));
+        if (!shown || shown.document.uri !== jump.uri) {
+            this.failed = true;
+            return;
+        }
+        this.cursorTo(shown, jump.position);
+    }
+
+    // Goes count changes forward in the changelist of the document, or back when count is negative.
+    private goToChange(count: number) {
+        const active = this.host.activeTextEditor;
+        const changes = this.changeLists[active.document.uri];
+        const change = changes ? changes.move(count) : null;
+        if (!change) {
+            this.failed = true;
+            if (!changes || changes.list().length === 0)
+                return this.showMessage("E664: changelist is empty");
+            return this.showMessage(count < 0 ? "E662: At start of changelist" : "E663: At end of changelist");
+        }
+        this.cursorTo(active, change.position);
+    }
+
+    private cursorTo(active: editor.TextEditor, position: editor.Position) {
+        position = active.document.validatePosition(position);
+        active.selection = new editor.Selection(position, position);
+        active.revealRange(active.selection);
+    }
+
+    // Puts the cursor on the first non-blank character of a line.
+    private cursorToLine(line: number) {
+        const active = this.host.activeTextEditor;
+        const position = new editor.Position(line, active.document.lineAt(line).firstNonWhitespaceCharacterIndex);
+        active.selection = new editor.Selection(position, position);
+        active.revealRange(active.selection);
     }
 
     private async normalKey(key: string) {
         if (key === "<esc>") {
-            vscode.window.activeTextEditor.selections = vscode.window.activeTextEditor.selections.map(s =>
-                new vscode.Selection(s.active, s.active)
-            );
+            const selections = this.host.activeTextEditor.selections;
+            // With nothing selected, <esc> leaves only the first of several cursors
+            this.host.activeTextEditor.selections = selections.every(s => s.isEmpty) ? [selections[0]] :
+                selections.map(s => new editor.Selection(s.active, s.active));
+            this.cursorRegisters = null;
             return this.setMode(VimMode.Normal, true);
         }
 
@@ -778,21 +2592,308 @@ export class Vim {
         if (!command)
             return;
 
-        this.doNormalAction(command);
-        this.lastAction = { action: command, insert: "" };
+        const count = this.enteredCount ? Number(this.enteredCount) : null;
+        const register = this.registerTarget;
+        await this.eachCursor(command, () => this.doNormalAction(command));
+        if (isChange(command))
+            this.recordChange({ count, register, action: command, insert: "" });
+    }
+
+    // Remembers a change for . to repeat. What is typed in the Insert mode a change starts becomes part of it.
+    private recordChange(change: RecordedChange) {
+        this.lastChange = change;
+        this.insertingChange = this.mode === VimMode.Insert || this.isReplace() ? change : null;
+    }
+
+    // Repeats the last change at the cursor, as . does. A count replaces the one the change was made with.
+    private async repeatChange(count: number) {
+        const change = this.lastChange;
+        if (!change)
+            return this.setMode(VimMode.Normal, true);
+        const action = Object.assign({}, change.action) as VimAction;
+        if (count && action.type !== "operator")
+            (action as MotionAction).count = count;
+        count = count || change.count;
+
+        const cursor = this.host.activeTextEditor.selection.active;
+        this.setMode(VimMode.Normal, true);
+        this.registerTarget = change.register;
+        this.enteredCount = count ? String(count) : "";
+        if (change.visual) {
+            // The selection is made again from the cursor, as large as the one the change was made to
+            this.selectLike(change.visual, cursor);
+            await (change.visual.mode === VimMode.VisualBlock ? this.visualBlockAction(action) : this.visualAction(action));
+        } else if (change.operator) {
+            this.operatorPending = change.operator;
+            this.setMode(VimMode.OperatorPending, false);
+            await this.operatorPendingAction(action);
+        } else {
+            await this.doNormalAction(action);
+            this.recordChange({ count, register: change.register, action, insert: "" });
+        }
+
+        if (this.mode === VimMode.Insert || this.isReplace()) {
+            if (change.insert)
+                await this.typeText(change.insert);
+            this.lastInsertedTest = change.insert;
+            await this.leaveInsert();
+        }
+    }
+
+    // The undo history of the active document, started with its text the first time it is needed
+    private undoHistory(): UndoHistory {
+        const document = this.host.activeTextEditor.document;
+        if (!this.undoHistories[document.uri])
+            this.undoHistories[document.uri] = new UndoHistory(document.getText());
+        return this.undoHistories[document.uri];
     }
 
-    private async doNormalAction(command: VimAction) {
-        const active = vscode.window.activeTextEditor;
+    // Makes the edits since the last undo step the next one, unless the command that makes them is not done yet.
+    // Everything from entering Insert mode to leaving it is one step.
+    private recordUndo() {
+        const active = this.host.activeTextEditor;
+        if (!active)
+            return;
+        const history = this.undoHistory();
+        if (this.mode === VimMode.Insert || this.isReplace() || this.mode === VimMode.OperatorPending || this.mode === VimMode.Cmdline)
+            return;
+        if (this.edited) {
+            this.edited = false;
+            history.record(active.document.getText(), this.editStart, this.undoCursor);
+        }
+        this.undoCursor = active.document.offsetAt(active.selection.active);
+    }
+
+    // Takes back the last count undo steps, as u does, or makes them again, as Ctrl-R does.
+    private async undo(count: number, redo: boolean) {
+        // Edits from keys that are not their own step, as in a macro, are one before they can be undone
+        this.recordUndo();
+        const history = this.undoHistory();
+        let change: UndoChange = null;
+        for (let i = 0; i < count; i++) {
+            const next = redo ? history.redo() : history.undo();
+            if (!next)
+                break;
+            change = next;
+            await this.applyUndo(change);
+        }
+        this.setMode(VimMode.Normal, true);
+        if (change) {
+            this.cursorToUndo(change.cursor);
+        } else {
+            this.failed = true;
+            this.showMessage(redo ? "Already at newest change" : "Already at oldest change");
+        }
+    }
+
+    // Puts the line changed last back as it was before the changes made to it, as U does. U is a change itself, which
+    // another U takes back.
+    private async undoLine() {
+        this.recordUndo();
+        const change = this.undoHistory().undoLine();
+        if (change) {
+            await this.host.activeTextEditor.edit(e => e.replace(this.changeRange(change), change.text));
+            this.setMode(VimMode.Normal, true);
+            this.cursorToUndo(change.start);
+        } else {
+            this.failed = true;
+            this.setMode(VimMode.Normal, true);
+        }
+    }
+
+    private changeRange(change: TextChange): editor.Range {
+        const document = this.host.activeTextEditor.document;
+        return new editor.Range(document.positionAt(change.start), document.positionAt(change.end));
+    }
+
+    private async applyUndo(change: TextChange) {
+        await this.host.activeTextEditor.edit(e => e.replace(this.changeRange(change), change.text));
+        // The history already has the edit
+        this.edited = false;
+    }
+
+    // Puts the cursor where it goes after an undo or redo.
+    private cursorToUndo(offset: number) {
+        const active = this.host.activeTextEditor;
+        const position = active.document.positionAt(offset);
+        active.selection = new editor.Selection(position, position);
+        active.revealRange(active.selection);
+        this.cleanSelection(active.selections);
+    }
+
+    // The text of the read-only registers.
+    private readOnlyRegister(name: string): string {
+        switch (name) {
+            case ".":
+                return this.insertedText;
+            case ":":
+                return this.lastCommandLine;
+            case "/":
+                return this.lastSearch ? this.lastSearch.pattern : null;
+            case "%":
+                const active = this.host.activeTextEditor;
+                return active ? decodeURIComponent(active.document.uri.replace(/^file:\/\//, "")) : null;
+            default:
+                return null;
+        }
+    }
+
+    // Whether a motion that moves by characters, words or lines left the cursor where it was, which Vim counts as the
+    // motion failing.
+    private motionStuck(motion: string, from: editor.Position): boolean {
+        if (!/^[hjklwWbBeE+\-\n]$/.test(motion))
+            return false;
+        const document = this.host.activeTextEditor.document;
+        let cursor = this.host.activeTextEditor.selection.active;
+        // In Normal mode the cursor cannot stay past the end of a line
+        if (cursor.character > 0 && cursor.character === document.lineAt(cursor.line).range.end.character)
+            cursor = cursor.translate(0, -1);
+        return cursor.isEqual(from);
+    }
+
+    // Starts recording the keys that follow into a register, as q does. An uppercase name appends to the register.
+    private startRecording(register: string) {
+        if (/^[a-zA-Z0-9"]$/.test(register))
+            this.macroRecording = { register, keys: [], handled: 0 };
+    }
+
+    private async stopRecording() {
+        const recording = this.macroRecording;
+        this.macroRecording = null;
+        // The keys of the q that ended the recording are not part of it, whether q was typed or came from a mapping
+        await this.registers.write(recording.register, { linewise: false, text: keysToText(recording.keys.slice(0, recording.handled)) });
+    }
+
+    // Replays the keys in a register count times, as @ does. @@ replays the register replayed last. The keys go in the
+    // typeahead, ahead of any a macro being replayed still has to handle, so a macro can replay another, or itself
+    // until it fails, and they are mapped as typed keys are.
+    private async runMacro(register: string, count: number) {
+        if (register === "@")
+            register = this.lastMacro;
+        // @: runs the last command line again rather than typing it
+        if (register === ":") {
+            if (!this.lastCommandLine) {
+                this.failed = true;
+                return this.showMessage("E30: No previous command line");
+            }
+            this.lastMacro = register;
+            for (let i = 0; i < count; i++) {
+                await this.exCommand(this.lastCommandLine);
+            }
+            return;
+        }
+        const macro = register ? await this.registers.read(register) : null;
+        if (!macro) {
+            this.failed = true;
+            if (!register)
+                this.showMessage("E748: No previously used register");
+            return;
+        }
+        this.lastMacro = register;
+        const keys: string[] = [];
+        for (let i = 0; i < count; i++) {
+            keys.push(...parseKeys(macro.text));
+        }
+        this.mapper.insert(keys, true);
+        if (!this.replaying)
+            await this.replayKeys();
+    }
+
+    // Handles the keys put in the typeahead one after the other until they run out or one fails, which drops the rest
+    // of them but not the keys typed meanwhile. The edits are made on a copy of the document and handed to the editor
+    // once at the end, since waiting on the editor for each of them would take far longer.
+    private async replayKeys() {
+        const host = this.host;
+        const batch = new BatchHost(host);
+        const listener = batch.onDidChangeTextDocument(e => this.documentChanged(e));
+        this.replaying = true;
+        this.host = batch;
+        try {
+            while (this.mapper.inserted > 0 && !batch.detached) {
+                const before = batch.activeTextEditor.selections;
+                this.failed = false;
+                if (!await this.handleInsertedKey())
+                    break;
+                // The copy does not report its cursors moving, so the engine is told as the editor would tell it
+                const after = batch.activeTextEditor.selections;
+                if (after.length !== before.length || after.some((s, i) => !s.isEqual(before[i])))
+                    this.updateSelection(after);
+                if (this.failed)
+                    break;
+            }
+        } finally {
+            // What the macro did not get to is dropped, the keys typed meanwhile are not
+            this.mapper.flushInserted();
+            this.replaying = false;
+            listener.dispose();
+            await batch.flush();
+            this.host = host;
+        }
+
+        this.updateUI();
+        if (this.searchHighlighted && this.lastSearch)
+            this.highlightSearch(this.lastSearch.pattern);
+        if (this.substituteConfirm)
+            this.showSubstituteConfirm();
+        else if (host.activeTextEditor)
+            host.activeTextEditor.revealRange(host.activeTextEditor.selection);
+    }
+
+    // Starts the Visual mode of a recorded change with a selection of the same size from a position.
+    private selectLike(size: { mode: VimMode, lines: number, columns: number, toEnd: boolean }, from: editor.Position) {
+        const active = this.host.activeTextEditor;
+        const lastLine = from.line + size.lines - 1;
+        if (size.mode === VimMode.VisualLine) {
+            this.setVisualLine(from, new editor.Position(lastLine, 0));
+        } else if (size.mode === VimMode.VisualBlock) {
+            this.setVisualBlock(from, new editor.Position(lastLine, from.character + size.columns - 1), size.toEnd);
+        } else {
+            const end = size.lines === 1 ? from.translate(0, size.columns) : new editor.Position(lastLine, size.columns);
+            active.selection = new editor.Selection(from, active.document.validatePosition(end));
+        }
+        this.setMode(size.mode, false);
+    }
+
+    // The size of the Visual selection, for repeating a change to it at another position.
+    private visualSize(): { mode: VimMode, lines: number, columns: number, toEnd: boolean } {
+        if (this.mode === VimMode.VisualBlock) {
+            const block = blockFromCorners(this.visualAnchor, this.visualCursor, this.visualBlockToEnd);
+            const columns = block.endColumn - block.startColumn + 1;
+            return { mode: this.mode, lines: block.endLine - block.startLine + 1, columns, toEnd: this.visualBlockToEnd };
+        }
+        const lines = this.visualLines();
+        const selection = this.host.activeTextEditor.selection;
+        const columns = lines.start === lines.end ? selection.end.character - selection.start.character : selection.end.character;
+        return { mode: this.mode, lines: lines.end - lines.start + 1, columns, toEnd: false };
+    }
+
+    // jumpedFrom is where a jump to a file mark in another document was made from.
+    private async doNormalAction(command: VimAction, jumpedFrom?: MarkPosition) {
+        const active = this.host.activeTextEditor;
         const selStart = active.selection.start;
-        const doc = new VimDocument(vscode.window.activeTextEditor.document);
+        const doc = new VimDocument(this.host.activeTextEditor.document);
 
         if (command.type === "motion") {
-            const motion = this.calculateMotion(doc, command as MotionAction, active.document.offsetAt(selStart));
+            const motionCommand = command as MotionAction;
+            const mark = /^[`']$/.test(motionCommand.motion) ? this.marks.get(active.document.uri, motionCommand.target) : null;
+            if (mark && mark.uri !== active.document.uri) {
+                // A file mark set in another document opens it, and is jumped to there
+                const from = { uri: active.document.uri, position: selStart };
+                const shown = await this.host.showDocument(mark.uri);
+                if (shown && shown.document.uri === mark.uri)
+                    return this.doNormalAction(command, from);
+                this.failed = true;
+                return this.setMode(VimMode.Normal, true);
+            }
+            const motion = this.calculateMotion(doc, motionCommand, active.document.offsetAt(selStart));
             if (motion) {
-                active.selection = new vscode.Selection(active.document.positionAt(motion.end), active.document.positionAt(motion.end));
+                active.selection = new editor.Selection(active.document.positionAt(motion.end), active.document.positionAt(motion.end));
                 active.revealRange(active.selection);
+                if (isJumpMotion(motionCommand.motion))
+                    this.recordJump(jumpedFrom || { uri: active.document.uri, position: selStart });
             }
+            if (!motion || this.motionStuck((command as MotionAction).motion, selStart))
+                this.failed = true;
             this.setMode(VimMode.Normal, true);
         } else if (command.type === "changeMode") {
             switch ((command as ChangeModeAction).newMode) {
@@ -800,29 +2901,41 @@ export class Vim {
                     return this.setMode(VimMode.Insert, true);
                 case "I":
                     const targetColumn = active.document.lineAt(selStart.line).firstNonWhitespaceCharacterIndex;
-                    active.selection = new vscode.Selection(selStart.line, targetColumn, selStart.line, targetColumn);
+                    active.selection = new editor.Selection(selStart.line, targetColumn, selStart.line, targetColumn);
                     return this.setMode(VimMode.Insert, true);
                 case "a":
-                    active.selection = new vscode.Selection(selStart.line, selStart.character + 1, selStart.line, selStart.character + 1);
+                    active.selection = new editor.Selection(selStart.line, selStart.character + 1, selStart.line, selStart.character + 1);
                     this.setMode(VimMode.Insert, true);
                     return;
                 case "A":
                     const lineEnd = active.document.lineAt(selStart.line).range.end.character;
-                    active.selection = new vscode.Selection(selStart.line, lineEnd, selStart.line, lineEnd);
+                    active.selection = new editor.Selection(selStart.line, lineEnd, selStart.line, lineEnd);
                     return this.setMode(VimMode.Insert, true);
                 case "o":
                     this.setMode(VimMode.Insert, true);
-                    await vscode.commands.executeCommand("editor.action.insertLineAfter");
+                    await this.host.executeCommand("editor.action.insertLineAfter");
                     return;
                 case "O":
                     this.setMode(VimMode.Insert, true);
-                    await vscode.commands.executeCommand("editor.action.insertLineBefore");
+                    await this.host.executeCommand("editor.action.insertLineBefore");
                     return;
                 case "gI":
-                    active.selection = new vscode.Selection(selStart.line, 0, selStart.line, 0);
+                    active.selection = new editor.Selection(selStart.line, 0, selStart.line, 0);
                     return this.setMode(VimMode.Insert, true);
+                case "R":
+                    this.replacedText = [];
+                    return this.setMode(VimMode.Replace, true);
+                case "gR":
+                    this.replacedText = [];
+                    return this.setMode(VimMode.VirtualReplace, true);
                 case "v":
                     return this.setMode(VimMode.Visual, true);
+                case "V":
+                    this.setVisualLine(selStart, selStart);
+                    return this.setMode(VimMode.VisualLine, true);
+                case "<c-v>":
+                    this.setVisualBlock(selStart, selStart, false);
+                    return this.setMode(VimMode.VisualBlock, true);
                 default:
                     return this.setMode(VimMode.Normal, true);
             }
@@ -836,30 +2949,39 @@ export class Vim {
             const line = doc.getLine(selStart.line);
             if (selStart.character + replace.count <= line.text.length) {
                 await active.edit(e => {
-                    e.replace(new vscode.Range(selStart, selStart.translate(0, replace.count)), new Array(replace.count + 1).join(replace.replace));
+                    e.replace(new editor.Range(selStart, selStart.translate(0, replace.count)), new Array(replace.count + 1).join(replace.replace));
                 });
-                active.selection = new vscode.Selection(selStart.translate(0, replace.count - 1), selStart.translate(0, replace.count - 1));
+                active.selection = new editor.Selection(selStart.translate(0, replace.count - 1), selStart.translate(0, replace.count - 1));
+            } else {
+                this.failed = true;
             }
             this.setMode(VimMode.Normal, true);
         } else if (command.type === "instant") {
             const instant = command as InstantAction;
             switch (instant.instant) {
                 case "u":
-                    await vscode.commands.executeCommand("undo");
-                    this.setMode(VimMode.Normal, true);
+                case "<c-r>":
+                    await this.undo(instant.count, instant.instant === "<c-r>");
+                    break;
+                case "U":
+                    await this.undoLine();
                     break;
                 case "x":
                 case "s":
                     // TODO: Cap to line
+                    const deleted = active.document.validateRange(new editor.Range(selStart, selStart.translate(0, instant.count)));
+                    await this.registers.delete(instant.register, { linewise: false, text: active.document.getText(deleted) }, true);
                     await active.edit(e => {
-                        e.delete(new vscode.Range(selStart, selStart.translate(0, instant.count)));
+                        e.delete(new editor.Range(selStart, selStart.translate(0, instant.count)));
                     });
                     this.setMode(instant.instant === "x" ? VimMode.Normal : VimMode.Insert, true);
-                    this.cleanSelection(vscode.window.activeTextEditor.selections);
+                    this.cleanSelection(this.host.activeTextEditor.selections);
                     break;
                 case "X":
+                    const deletedBefore = new editor.Range(selStart, selStart.translate(0, Math.max(-instant.count, -selStart.character)));
+                    await this.registers.delete(instant.register, { linewise: false, text: active.document.getText(deletedBefore) }, true);
                     await active.edit(e => {
-                        e.delete(new vscode.Range(selStart, selStart.translate(0, Math.max(-instant.count, -selStart.character))));
+                        e.delete(deletedBefore);
                     });
                     this.setMode(VimMode.Normal, true);
                     break;
@@ -886,14 +3008,20 @@ export class Vim {
                     break;
                 case "P":
                 case "p":
-                    if (this.registers[instant.register]) {
-                        const reg = this.registers[instant.register];
+                    const reg = await this.registers.read(instant.register);
+                    if (reg) {
                         const regText = (new Array(instant.count + 1).join(reg.text));
-                        if (reg.linewise) {
+                        if (reg.blockwise) {
+                            const emptyLine = doc.getLine(selStart.line).text.length === 0;
+                            const column = instant.instant === "P" || emptyLine ? selStart.character : selStart.character + 1;
+                            const insertPosition = new editor.Position(selStart.line, column);
+                            await active.edit(e => putBlock(active.document, reg.text, insertPosition, instant.count, e));
+                            active.selection = new editor.Selection(insertPosition, insertPosition);
+                        } else if (reg.linewise) {
                             const line = doc.getLine(selStart.line);
                             let text = regText;
-                            let insertPosition: vscode.Position;
-                            let cursorPosition: vscode.Position;
+                            let insertPosition: editor.Position;
+                            let cursorPosition: editor.Position;
                             if (instant.instant === "P") {
                                 cursorPosition = insertPosition = line.rangeIncludingLineBreak.start;
                             } else {
@@ -901,11 +3029,11 @@ export class Vim {
                                 if (line.lineNumber === doc.lineCount() - 1) {
                                     // If the line does not end with a line break (i.e., it's the last line) add one.
                                     text = "\n" + text.replace(/(\r?\n)+$/, "");
-                                    cursorPosition = new vscode.Position(selStart.line + 1, 0);
+                                    cursorPosition = new editor.Position(selStart.line + 1, 0);
                                 }
                             }
                             await active.edit(e => e.insert(insertPosition, text));
-                            active.selection = new vscode.Selection(cursorPosition, cursorPosition);
+                            active.selection = new editor.Selection(cursorPosition, cursorPosition);
                         } else {
                             const insertPosition = instant.instant === "P" ? selStart : selStart.translate(0, 1);
                             await active.edit(e => e.insert(insertPosition, regText));
@@ -913,19 +3041,59 @@ export class Vim {
                             // doesn't, it's moved to the end. I cannot imagine what justification there is for
                             // this behavior, but it's replicated here.
                             if (regText.indexOf("\n") !== -1) {
-                                active.selection = new vscode.Selection(insertPosition, insertPosition);
+                                active.selection = new editor.Selection(insertPosition, insertPosition);
                             } else {
                                 const insertEnd = insertPosition.translate(0, regText.length - 1);
-                                active.selection = new vscode.Selection(insertEnd, insertEnd);
+                                active.selection = new editor.Selection(insertEnd, insertEnd);
                             }
                         }
                     }
                     this.setMode(VimMode.Normal, true);
                     break;
+                case "J":
+                    await this.joinLines(selStart.line, Math.max(instant.count, 2));
+                    this.setMode(VimMode.Normal, true);
+                    break;
+                case "&":
+                case "g&":
+                    // & repeats the last :s on the line, g& is :%s//~/& which repeats it with its flags everywhere
+                    await this.exCommand(instant.instant === "&" ? "s" : "%s//~/&");
+                    if (this.mode === VimMode.Normal)
+                        this.setMode(VimMode.Normal, true);
+                    break;
+                case ".":
+                    await this.repeatChange(instant.count);
+                    break;
+                case "gb":
+                    this.addCursorAtNextMatch();
+                    this.setMode(VimMode.Normal, true);
+                    break;
                 case "m":
-                    this.marks[instant.target] = selStart;
+                    // The marks only Vim sets cannot be set with m
+                    if (/^[.^]$/.test(instant.target) || !this.marks.set(active.document.uri, instant.target, selStart))
+                        this.failed = true;
+                    this.setMode(VimMode.Normal, true);
+                    break;
+                case "<c-o>":
+                case "\t":
+                    await this.goToJump(instant.instant === "\t" ? instant.count : -instant.count);
+                    this.setMode(VimMode.Normal, true);
+                    break;
+                case "g;":
+                case "g,":
+                    this.goToChange(instant.instant === "g," ? instant.count : -instant.count);
+                    this.setMode(VimMode.Normal, true);
+                    break;
+                case "q":
+                    if (instant.target)
+                        this.startRecording(instant.target);
+                    else
+                        await this.stopRecording();
+                    this.setMode(VimMode.Normal, true);
+                    break;
+                case "@":
                     this.setMode(VimMode.Normal, true);
-                    this.documentChanged(null);
+                    await this.runMacro(instant.target, instant.count);
                     break;
                 default:
             }
@@ -0,0 +1,120 @@
+import * as assert from "assert";
+import { addChange, findDifference } from "../../src/vim/batch";
+import { Selection, StatusItem, TextDocumentContentChangeEvent } from "../../src/vim/editor";
+import { MemoryHost } from "../../src/vim/memory";
+import { TextChange } from "../../src/vim/undo";
+import { Vim } from "../../src/vim/vim";
+
+function applyChanges(text: string, changes: TextChange[]): string {
+    for (const change of changes.slice().reverse()) {
+        text = text.substring(0, change.start) + change.text + text.substring(change.end);
+    }
+    return text;
+}
+
+suite("Batch", () => {
+    test("findDifference finds the smallest replacement", () => {
+        assert.deepEqual(findDifference("abcd", "abxd"), { start: 2, end: 3, text: "x" });
+        assert.deepEqual(findDifference("aaa", "aaaa"), { start: 3, end: 3, text: "a" });
+        assert.deepEqual(findDifference("abc", ""), { start: 0, end: 3, text: "" });
+        assert.deepEqual(findDifference("same", "same"), { start: 4, end: 4, text: "" });
+    });
+
+    test("addChange keeps changes apart and joins the ones a change touches", () => {
+        let changes = addChange([], { start: 1, end: 2, text: "xy" });
+        changes = addChange(changes, { start: 6, end: 6, text: "z" });
+        assert.deepEqual(changes, [{ start: 1, end: 2, text: "xy" }, { start: 5, end: 5, text: "z" }]);
+        changes = addChange(changes, { start: 2, end: 4, text: "" });
+        assert.deepEqual(changes, [{ start: 1, end: 3, text: "x" }, { start: 5, end: 5, text: "z" }]);
+        changes = addChange(changes, { start: 0, end: 5, text: "-" });
+        assert.deepEqual(changes, [{ start: 0, end: 5, text: "-" }]);
+    });
+
+    test("addChange gives changes that make the same text as the edits one after the other", () => {
+        // A small generator that gives the same edits every run
+        let seed = 7;
+        const next = (n: number) => (seed = seed * 16807 % 2147483647) % n;
+        for (let run = 0; run < 200; run++) {
+            const original = "abcdefghij".substring(0, next(11));
+            let text = original;
+            let changes: TextChange[] = [];
+            for (let i = 0, count = 1 + next(5); i < count; i++) {
+                const start = next(text.length + 1);
+                const change = { start, end: start + next(text.length - start + 1), text: "XYZ".substring(0, next(4)) };
+                text = applyChanges(text, [change]);
+                changes = addChange(changes, change);
+            }
+            assert.equal(applyChanges(original, changes), text, `run ${run}`);
+            changes.forEach((c, i) => assert.ok(i === 0 || changes[i - 1].end < c.start, `run ${run}: changes overlap`));
+        }
+    });
+
+    test("edits at several cursors reach the editor as a change for each", async () => {
+        const host = new MemoryHost("one two\nthree\nfour five");
+        const vim = new Vim(host);
+        host.activeTextEditor.selections = [new Selection(0, 4, 0, 4), new Selection(2, 5, 2, 5)];
+        const changes: TextDocumentContentChangeEvent[][] = [];
+        host.onDidChangeTextDocument(e => changes.push(e.contentChanges));
+        await vim.key("x");
+        assert.equal(host.activeTextEditor.document.getText(), "one wo\nthree\nfour ive");
+        assert.equal(changes.length, 1);
+        assert.deepEqual(changes[0].map(c => [c.range.start.line, c.range.start.character, c.rangeLength, c.text]),
+            [[2, 5, 1, ""], [0, 4, 1, ""]]);
+    });
+
+    test("a long macro reaches the editor as one edit", async () => {
+        const lines: string[] = [];
+        for (let i = 0; i < 2000; i++) {
+            lines.push(`line ${i}`);
+        }
+        const host = new MemoryHost(lines.join("\n"));
+        const vim = new Vim(host);
+        let edits = 0;
+        host.onDidChangeTextDocument(() => edits++);
+        for (const key of ["q", "a", "A", ";", "<esc>", "j", "q"]) {
+            await vim.key(key);
+        }
+        edits = 0;
+        for (const key of ["5", "0", "0", "@", "a"]) {
+            await vim.key(key);
+        }
+
+        const text = host.activeTextEditor.document.getText().split("\n");
+        assert.equal(edits, 1);
+        assert.equal(text[500], "line 500;");
+        assert.equal(text[501], "line 501");
+        assert.equal(host.activeTextEditor.selection.active.line, 501);
+    });
+
+    test("keys typed during a replay that fails are handled after it", async () => {
+        const host = new MemoryHost("one");
+        const vim = new Vim(host);
+        for (const key of ["q", "a", "A", "!", "<esc>", "j", "q"]) {
+            await vim.key(key);
+        }
+        // x is typed as the replay enters Insert mode, before the j that fails
+        const setStatusText = host.setStatusText.bind(host);
+        let typed = false;
+        host.setStatusText = (item: StatusItem, text: string) => {
+            setStatusText(item, text);
+            if (text === "-- INSERT --" && !typed) {
+                typed = true;
+                vim.key("x");
+            }
+        };
+        for (const key of ["2", "@", "a"]) {
+            await vim.key(key);
+        }
+        assert.equal(typed, true);
+        assert.equal(host.activeTextEditor.document.getText(), "one!");
+    });
+
+    test("the editor runs commands the copy cannot", async () => {
+        const host = new MemoryHost("a\nb");
+        const vim = new Vim(host);
+        for (const key of ["q", "a", "V", ">", "j", "q", "@", "a"]) {
+            await vim.key(key);
+        }
+        assert.equal(host.activeTextEditor.document.getText(), "    a\n    b");
+    });
+});
@@ -0,0 +1,105 @@
+import * as assert from "assert";
+import { AddressContext, parseCommand, parseCountArgument, parseDestination, parseGlobal, parseMarkNames, parseRange } from "../../src/vim/ex";
+
+// A ten line document with the cursor on line 5, mark a on line 3 and "foo" on lines 2 and 8.
+const context: AddressContext = {
+    currentLine: 5,
+    lineCount: 10,
+    markLine: mark => mark === "a" ? 3 : null,
+    searchLine: (pattern, forward, line) => {
+        if (pattern !== "foo")
+            throw new Error(`E486: Pattern not found: ${pattern}`);
+        return forward ? (line < 8 && line >= 2 ? 8 : 2) : (line > 2 && line <= 8 ? 2 : 8);
+    },
+};
+
+function range(text: string): number[] {
+    const parsed = parseRange(text, context).range;
+    return parsed ? [parsed.start, parsed.end] : null;
+}
+
+function error(parse: () => any): string {
+    try {
+        parse();
+    } catch (e) {
+        return e.message;
+    }
+    return null;
+}
+
+suite("Ex", () => {
+    test("addresses", () => {
+        assert.deepEqual(range(""), null);
+        assert.deepEqual(range("7"), [7, 7]);
+        assert.deepEqual(range("."), [5, 5]);
+        assert.deepEqual(range("$"), [10, 10]);
+        assert.deepEqual(range("'a"), [3, 3]);
+        assert.deepEqual(range("/foo/"), [8, 8]);
+        assert.deepEqual(range("?foo?"), [2, 2]);
+        assert.deepEqual(range("0"), [0, 0]);
+    });
+
+    test("offsets", () => {
+        assert.deepEqual(range("+"), [6, 6]);
+        assert.deepEqual(range("-2"), [3, 3]);
+        assert.deepEqual(range("$-1"), [9, 9]);
+        assert.deepEqual(range("'a++"), [5, 5]);
+        assert.deepEqual(range("/foo/+1"), [9, 9]);
+        assert.deepEqual(range(". +3"), [8, 8]);
+    });
+
+    test("ranges", () => {
+        assert.deepEqual(range("%"), [1, 10]);
+        assert.deepEqual(range("2,4"), [2, 4]);
+        assert.deepEqual(range(",7"), [5, 7]);
+        assert.deepEqual(range("7,"), [5, 7]);
+        assert.deepEqual(range("1,2,3"), [2, 3]);
+        assert.deepEqual(range("9,2"), [2, 9]);
+        assert.deepEqual(range("2;+1"), [2, 3]);
+        assert.deepEqual(range("2,+1"), [2, 6]);
+        assert.deepEqual(range("1;/foo/"), [1, 2]);
+    });
+
+    test("commands", () => {
+        assert.deepEqual(parseCommand("2,3d", context), { range: { start: 2, end: 3 }, name: "delete", bang: false, argument: "" });
+        assert.deepEqual(parseCommand("norm! dw", context), { range: null, name: "normal", bang: true, argument: "dw" });
+        assert.deepEqual(parseCommand("t.", context), { range: null, name: "t", bang: false, argument: "." });
+        assert.deepEqual(parseCommand("%>>", context), { range: { start: 1, end: 10 }, name: ">>", bang: false, argument: "" });
+        assert.deepEqual(parseCommand(" 4 ", context), { range: { start: 4, end: 4 }, name: "", bang: false, argument: "" });
+        assert.equal(parseCommand("co 0", context).name, "copy");
+        assert.equal(parseCommand("nohl", context).name, "nohlsearch");
+    });
+
+    test("arguments", () => {
+        assert.deepEqual(parseCountArgument("", true), { register: null, count: null });
+        assert.deepEqual(parseCountArgument("a", true), { register: "a", count: null });
+        assert.deepEqual(parseCountArgument("a 3", true), { register: "a", count: 3 });
+        assert.deepEqual(parseCountArgument("12", true), { register: null, count: 12 });
+        assert.deepEqual(parseCountArgument("3", false), { register: null, count: 3 });
+        assert.equal(parseDestination("0", context), 0);
+        assert.equal(parseDestination("'a-1", context), 2);
+        assert.deepEqual(parseGlobal("/a/d"), { pattern: "a", command: "d" });
+        assert.deepEqual(parseGlobal("#a\\#b#normal Ax "), { pattern: "a#b", command: "normal Ax " });
+        assert.deepEqual(parseGlobal("/a"), { pattern: "a", command: "p" });
+        assert.deepEqual(parseMarkNames("a-c x A-B '"), ["a", "b", "c", "x", "A", "B", "'"]);
+    });
+
+    test("errors", () => {
+        assert.equal(error(() => parseRange("-6", context)), "E16: Invalid range");
+        assert.equal(error(() => parseRange("'b", context)), "E20: Mark not set");
+        assert.equal(error(() => parseRange("/bar/", context)), "E486: Pattern not found: bar");
+        assert.equal(error(() => parseCommand("foo", context)), "E492: Not an editor command: foo");
+        assert.equal(error(() => parseCommand("1,2#", context)), "E492: Not an editor command: 1,2#");
+        assert.equal(error(() => parseCommand("de", context)), null);
+        assert.equal(error(() => parseCommand("dx", context)), "E492: Not an editor command: dx");
+        assert.equal(error(() => parseDestination("", context)), "E14: Invalid address");
+        assert.equal(error(() => parseDestination("11", context)), "E16: Invalid range");
+        assert.equal(error(() => parseDestination("3 x", context)), "E488: Trailing characters: x");
+        assert.equal(error(() => parseCountArgument("a b", true)), "E488: Trailing characters: a b");
+        assert.equal(error(() => parseCountArgument("a", false)), "E488: Trailing characters: a");
+        assert.equal(error(() => parseMarkNames("a-C")), "E475: Invalid argument: a-C");
+        assert.equal(error(() => parseMarkNames("ab1")), "E475: Invalid argument: 1");
+        assert.equal(error(() => parseGlobal("")), "E148: Regular expression missing from :global");
+        assert.equal(error(() => parseGlobal("xax")), "E146: Regular expressions can't be delimited by letters");
+    });
+});
@@ -0,0 +1,70 @@
+import * as assert from "assert";
+import { Position, Range, Selection } from "../../src/vim/editor";
+import { assignLabels, labelKeys, lineStartPattern, nearestFirst, wordStartPattern } from "../../src/vim/jump";
+import { MemoryHost } from "../../src/vim/memory";
+import { findAll } from "../../src/vim/search";
+import { Vim } from "../../src/vim/vim";
+
+// The labels shown after keys are typed, by the offset each one is at.
+async function labelsAfter(host: MemoryHost, vim: Vim, keys: string[]): Promise<{ [offset: number]: string }> {
+    for (const key of keys) {
+        await vim.key(key);
+    }
+    const editor = host.activeTextEditor;
+    const shown: { [offset: number]: string } = {};
+    for (const key of Object.keys(editor.labels)) {
+        editor.decorations[key].forEach((range, i) => shown[editor.document.offsetAt(range.start)] = editor.labels[key][i]);
+    }
+    return shown;
+}
+
+suite("Jump", () => {
+    test("every target gets a key of its own while there are enough", () => {
+        assert.deepEqual(assignLabels(3, "abc"), ["a", "b", "c"]);
+        assert.deepEqual(assignLabels(2, "abc"), ["a", "b"]);
+        assert.deepEqual(assignLabels(0, "abc"), []);
+    });
+
+    test("the last keys start two key labels when there are more targets", () => {
+        assert.deepEqual(assignLabels(4, "abc"), ["a", "b", "ca", "cb"]);
+        assert.deepEqual(assignLabels(6, "abc"), ["a", "ba", "bb", "bc", "ca", "cb"]);
+        assert.deepEqual(assignLabels(10, "ab"), ["aa", "ab", "ba", "bb"]);
+    });
+
+    test("labelKeys takes each key once and falls back to the default", () => {
+        assert.equal(labelKeys("asdfa"), "asdf");
+        assert.equal(labelKeys("a a"), labelKeys(""));
+        assert.equal(labelKeys(null), "abcdefghijklmnopqrstuvwxyz");
+    });
+
+    test("targets are ordered by lines and then characters away from the cursor", () => {
+        const targets = [new Position(0, 0), new Position(2, 9), new Position(3, 0), new Position(2, 1), new Position(1, 5)];
+        assert.deepEqual(nearestFirst(targets, new Position(2, 4)), [
+            new Position(2, 1), new Position(2, 9), new Position(1, 5), new Position(3, 0), new Position(0, 0),
+        ]);
+    });
+
+    test("gQw targets the start of every word and gQj the start of every line", () => {
+        assert.deepEqual(findAll("foo.bar  (x)", wordStartPattern).map(m => m.start), [0, 3, 4, 9, 10, 11]);
+        assert.deepEqual(findAll("one\n  two\n\n   \nthree", lineStartPattern).map(m => m.start), [0, 6, 10, 14, 15]);
+    });
+
+    test("only matches in view are labelled, the nearest first", async () => {
+        const host = new MemoryHost("x1\nx2 x3\nx4\nx5");
+        host.activeTextEditor.visibleRanges = [new Range(1, 0, 2, 2)];
+        const vim = new Vim(host);
+        host.activeTextEditor.selection = new Selection(2, 1, 2, 1);
+        assert.deepEqual(await labelsAfter(host, vim, ["Q", "x"]), { 9: "a", 3: "b", 6: "c" });
+    });
+
+    test("labels come from the configured keys and narrow as they are typed", async () => {
+        const host = new MemoryHost("x x x x");
+        const vim = new Vim(host);
+        vim.configure({ jumpLabels: "jk" });
+        assert.deepEqual(await labelsAfter(host, vim, ["Q", "x"]), { 2: "j", 4: "kj", 6: "kk" });
+        assert.deepEqual(await labelsAfter(host, vim, ["k"]), { 4: "j", 6: "k" });
+        await vim.key("k");
+        assert.equal(host.activeTextEditor.selection.active.character, 6);
+        assert.deepEqual(await labelsAfter(host, vim, []), {});
+    });
+});
@@ -0,0 +1,82 @@
+import * as assert from "assert";
+import { Position } from "../../src/vim/editor";
+import { ChangeList, JumpList, positionListLimit } from "../../src/vim/jumplist";
+import { MemoryHost } from "../../src/vim/memory";
+import { PositionTracker } from "../../src/vim/tracker";
+import { Vim } from "../../src/vim/vim";
+
+suite("Jumplist", () => {
+    test("the oldest entries are dropped past the limit", () => {
+        const jumps = new JumpList(new PositionTracker());
+        for (let line = 0; line < positionListLimit + 10; line++) {
+            jumps.add("doc", new Position(line, 0));
+        }
+        const entries = jumps.list();
+        assert.equal(entries.length, positionListLimit);
+        assert.equal(entries[0].position.line, 10);
+        assert.equal(jumps.current, positionListLimit);
+    });
+
+    test("a jump takes the place of earlier jumps from its line in its document", () => {
+        const jumps = new JumpList(new PositionTracker());
+        jumps.add("one", new Position(1, 0));
+        jumps.add("two", new Position(1, 2));
+        jumps.add("one", new Position(2, 0));
+        jumps.add("one", new Position(1, 4));
+        assert.deepEqual(jumps.list().map(j => [j.uri, j.position.line, j.position.character]), [["two", 1, 2], ["one", 2, 0], ["one", 1, 4]]);
+    });
+
+    test("going back from the newest adds the cursor to come back to", () => {
+        const jumps = new JumpList(new PositionTracker());
+        jumps.add("doc", new Position(1, 0));
+        assert.equal(jumps.jump(-1, "doc", new Position(5, 0)).position.line, 1);
+        assert.equal(jumps.jump(-1, "doc", new Position(1, 0)), null);
+        assert.equal(jumps.jump(1, "doc", new Position(1, 0)).position.line, 5);
+        assert.equal(jumps.jump(1, "doc", new Position(5, 0)), null);
+    });
+
+    test("a count past the oldest or newest change goes to it", () => {
+        const changes = new ChangeList(new PositionTracker());
+        changes.add("doc", new Position(0, 0));
+        changes.add("doc", new Position(0, 100));
+        changes.add("doc", new Position(0, 120));
+        changes.add("doc", new Position(2, 0));
+        assert.equal(changes.list().length, 3);
+        assert.equal(changes.move(-5).position.character, 0);
+        assert.equal(changes.move(-1), null);
+        assert.equal(changes.move(5).position.line, 2);
+        assert.equal(changes.move(1), null);
+    });
+
+    test("<c-o> goes back to the document a file mark was jumped to from", async () => {
+        const host = new MemoryHost("one\ntwo");
+        const vim = new Vim(host);
+        const first = host.activeTextEditor;
+        host.open("three\nfour");
+        for (const key of ["j", "m", "A"]) {
+            await vim.key(key);
+        }
+        host.setActiveTextEditor(first);
+        for (const key of ["j", "'", "A"]) {
+            await vim.key(key);
+        }
+        assert.equal(host.activeTextEditor.document.getText(), "three\nfour");
+        await vim.key("<c-o>");
+        assert.equal(host.activeTextEditor, first);
+        assert.equal(host.activeTextEditor.selection.active.line, 1);
+        await vim.key("\t");
+        assert.equal(host.activeTextEditor.document.getText(), "three\nfour");
+        assert.equal(host.activeTextEditor.selection.active.line, 1);
+    });
+
+    test("the editor keeps Ctrl-O and Ctrl-I while text is typed", async () => {
+        const host = new MemoryHost("one");
+        const vim = new Vim(host);
+        vim.updateUI();
+        assert.equal(host.contexts["vimish.insertMode"], false);
+        for (const [key, insert] of [["i", true], ["<esc>", false], ["R", true], ["<esc>", false]] as [string, boolean][]) {
+            await vim.key(key);
+            assert.equal(host.contexts["vimish.insertMode"], insert, key);
+        }
+    });
+});
@@ -0,0 +1,16 @@
+import * as assert from "assert";
+import { keysToText, parseKeys } from "../../src/vim/keys";
+
+suite("Keys", () => {
+    test("parseKeys reads special keys", () => {
+        assert.deepEqual(parseKeys("d2w"), ["d", "2", "w"]);
+        assert.deepEqual(parseKeys("ix<esc><cr><lt>"), ["i", "x", "<esc>", "\n", "<"]);
+        assert.deepEqual(parseKeys("<foo>"), ["<", "f", "o", "o", ">"]);
+    });
+
+    test("keysToText is read back as the same keys", () => {
+        const keys = ["i", "<", "a", ">", "<left>", "\n", "\t", "<esc>", "<bs>", "<c-v>"];
+        assert.equal(keysToText(keys), "i<lt>a><left>\n\t<esc><bs><c-v>");
+        assert.deepEqual(parseKeys(keysToText(keys)), keys);
+    });
+});
@@ -0,0 +1,150 @@
+import * as assert from "assert";
+import { KeyMapper, MappingMode, MappingSettings, ResolvedKey } from "../../src/vim/mappings";
+import { MemoryHost } from "../../src/vim/memory";
+import { Vim } from "../../src/vim/vim";
+
+// Types keys into a mapper and takes out everything that is ready.
+function resolve(mapper: KeyMapper, keys: string[], mode: MappingMode = "normal", timedOut = false): ResolvedKey[] {
+    const result: ResolvedKey[] = [];
+    for (const key of keys) {
+        mapper.type(key);
+    }
+    for (let next = mapper.next(mode, timedOut); next; next = mapper.next(mode, timedOut)) {
+        result.push(next);
+    }
+    return result;
+}
+
+function keys(...k: string[]): ResolvedKey[] {
+    return k.map(key => ({ key }));
+}
+
+async function typeKeys(settings: MappingSettings, text: string, keys: string[]): Promise<MemoryHost> {
+    const host = new MemoryHost(text);
+    const vim = new Vim(host);
+    vim.configure(settings);
+    for (const key of keys) {
+        await vim.key(key);
+    }
+    return host;
+}
+
+suite("Mappings", () => {
+    test("keys without a mapping come out as they are", () => {
+        const mapper = new KeyMapper({ normalModeKeyBindings: [{ before: "x", after: "dd" }] });
+        assert.deepEqual(resolve(mapper, ["a", "b"]), keys("a", "b"));
+    });
+
+    test("a mapping replaces its keys", () => {
+        const mapper = new KeyMapper({ normalModeKeyBindings: [{ before: "<leader>d", after: "dd" }] });
+        assert.deepEqual(resolve(mapper, ["\\", "d", "j"]), keys("d", "d", "j"));
+    });
+
+    test("mappings apply only in their own mode", () => {
+        const mapper = new KeyMapper({ insertModeKeyBindings: [{ before: "jk", after: "<esc>" }] });
+        assert.deepEqual(resolve(mapper, ["j", "k"], "insert"), keys("<esc>"));
+        assert.deepEqual(resolve(mapper, ["j", "k"], "normal"), keys("j", "k"));
+        assert.deepEqual(resolve(mapper, ["j", "k"], null), keys("j", "k"));
+    });
+
+    test("the leader can be set", () => {
+        const mapper = new KeyMapper({ leader: " ", normalModeKeyBindings: [{ before: "<leader>w", after: ":w<cr>" }] });
+        assert.deepEqual(resolve(mapper, [" ", "w"]), keys(":", "w", "\n"));
+        assert.deepEqual(resolve(new KeyMapper({ normalModeKeyBindings: [{ before: "<space>", after: "l" }] }), [" "]), keys("l"));
+    });
+
+    test("a mapping can run editor commands", () => {
+        const mapper = new KeyMapper({ normalModeKeyBindings: [{ before: "<leader>f", commands: ["one", "two"] }] });
+        assert.deepEqual(resolve(mapper, ["\\", "f", "j"]), [{ command: "one" }, { command: "two" }, { key: "j" }]);
+    });
+
+    test("map maps the keys it puts in again, noremap does not", () => {
+        const map = new KeyMapper({ normalModeKeyBindings: [{ before: "a", after: "b" }, { before: "b", after: "c" }] });
+        assert.deepEqual(resolve(map, ["a"]), keys("c"));
+        const noremap = new KeyMapper({ normalModeKeyBindings: [{ before: "a", after: "b", noremap: true }, { before: "b", after: "c" }] });
+        assert.deepEqual(resolve(noremap, ["a"]), keys("b"));
+    });
+
+    test("keys a mapping starts with are not mapped again", () => {
+        const mapper = new KeyMapper({ normalModeKeyBindings: [{ before: "j", after: "jzz" }, { before: "z", after: "x" }] });
+        assert.deepEqual(resolve(mapper, ["j"]), keys("j", "x", "x"));
+    });
+
+    test("a mapping that maps itself forever gives up", () => {
+        const mapper = new KeyMapper({ normalModeKeyBindings: [{ before: "a", after: "b" }, { before: "b", after: "a" }] });
+        mapper.type("a");
+        assert.throws(() => mapper.next("normal", false), /E223/);
+        assert.equal(mapper.waiting, false);
+    });
+
+    test("keys that could start a longer mapping wait for the rest of it", () => {
+        const mapper = new KeyMapper({ normalModeKeyBindings: [{ before: "g", after: "x" }, { before: "gq", after: "y" }] });
+        assert.deepEqual(resolve(mapper, ["g"]), []);
+        assert.equal(mapper.waiting, true);
+        assert.deepEqual(resolve(mapper, ["q"]), keys("y"));
+
+        assert.deepEqual(resolve(mapper, ["g", "j"]), keys("x", "j"));
+        assert.deepEqual(resolve(mapper, ["g"]), []);
+        assert.deepEqual(resolve(mapper, [], "normal", true), keys("x"));
+        assert.equal(mapper.waiting, false);
+    });
+
+    test("keys that only start a mapping come out as they are after the timeout", () => {
+        const mapper = new KeyMapper({ normalModeKeyBindings: [{ before: "abc", after: "x" }] });
+        assert.deepEqual(resolve(mapper, ["a", "b"]), []);
+        assert.deepEqual(resolve(mapper, ["d"]), keys("a", "b", "d"));
+        assert.deepEqual(resolve(mapper, ["a", "b"], "normal", true), keys("a", "b"));
+    });
+
+    test("the mapper counts the typed keys what it returns was made of", () => {
+        const mapper = new KeyMapper({ normalModeKeyBindings: [{ before: "<leader>q", after: "q" }] });
+        assert.deepEqual(resolve(mapper, ["x"]), keys("x"));
+        assert.equal(mapper.lastTyped, 1);
+        assert.deepEqual(resolve(mapper, ["\\", "q"]), keys("q"));
+        assert.equal(mapper.lastTyped, 2);
+        mapper.type("\\");
+        assert.equal(mapper.typedWaiting, 1);
+    });
+
+    test("Vim handles the keys the mappings make", async () => {
+        const host = await typeKeys({ normalModeKeyBindings: [{ before: "<leader>d", after: "dd" }] }, "one\ntwo", ["\\", "d"]);
+        assert.equal(host.activeTextEditor.document.getText(), "two");
+    });
+
+    test("Insert mode mappings apply while inserting", async () => {
+        const host = await typeKeys({ insertModeKeyBindings: [{ before: "jk", after: "<esc>" }] }, "", ["i", "a", "j", "k", "x"]);
+        assert.equal(host.activeTextEditor.document.getText(), "");
+    });
+
+    test("the argument of f is not mapped", async () => {
+        const host = await typeKeys({ normalModeKeyBindings: [{ before: "x", after: "l" }] }, "abxd", ["f", "x", "x"]);
+        assert.equal(host.activeTextEditor.document.getText(), "abxd");
+        assert.equal(host.activeTextEditor.selection.active.character, 3);
+    });
+
+    test("the keys of a mapping that ends a recording are not recorded", async () => {
+        const host = new MemoryHost("abc");
+        const vim = new Vim(host);
+        vim.configure({ normalModeKeyBindings: [{ before: "<leader>q", after: "q" }] });
+        for (const key of ["q", "a", "x", "\\", "q"]) {
+            await vim.key(key);
+        }
+        assert.equal(vim.getRegister("a").text, "x");
+    });
+
+    test("Vim runs the commands of a mapping", async () => {
+        const host = await typeKeys({ normalModeKeyBindings: [{ before: "<leader>s", commands: ["workbench.action.files.save"] }] }, "", ["\\", "s"]);
+        assert.notEqual(host.executedCommands.indexOf("workbench.action.files.save"), -1);
+    });
+
+    test("Vim waits timeoutlen for the rest of a mapping", async () => {
+        const host = new MemoryHost("one\ntwo");
+        const vim = new Vim(host);
+        vim.configure({ timeoutlen: 10, normalModeKeyBindings: [{ before: "dx", after: "x" }] });
+        await vim.key("d");
+        assert.equal(host.activeTextEditor.document.getText(), "one\ntwo");
+        await new Promise(resolve => setTimeout(resolve, 50));
+        await vim.key("d");
+        assert.equal(host.activeTextEditor.document.getText(), "two");
+    });
+});
@@ -0,0 +1,57 @@
+import * as assert from "assert";
+import { Position, Range } from "../../src/vim/editor";
+import { Marks } from "../../src/vim/marks";
+import { MemoryHost } from "../../src/vim/memory";
+import { PositionTracker } from "../../src/vim/tracker";
+import { Vim } from "../../src/vim/vim";
+
+function change(startLine: number, startCharacter: number, endLine: number, endCharacter: number, text: string) {
+    return { range: new Range(startLine, startCharacter, endLine, endCharacter), rangeLength: 0, text };
+}
+
+suite("Marks", () => {
+    test("lowercase marks belong to a document and file marks to one at a time", () => {
+        const marks = new Marks(new PositionTracker());
+        marks.set("one", "a", new Position(1, 0));
+        marks.set("one", "A", new Position(2, 0));
+        marks.set("two", "`", new Position(3, 0));
+        assert.equal(marks.get("two", "a"), null);
+        assert.deepEqual(marks.get("two", "A"), { uri: "one", position: new Position(2, 0) });
+        assert.deepEqual(marks.get("two", "'"), { uri: "two", position: new Position(3, 0) });
+        assert.equal(marks.set("one", "x1", new Position(0, 0)), false);
+        assert.deepEqual(marks.list("two").map(m => m.name), ["'", "A"]);
+        marks.set("two", "A", new Position(0, 1));
+        assert.deepEqual(marks.list("one").map(m => m.name), ["a", "A"]);
+        marks.delete("one", "a");
+        assert.equal(marks.get("one", "a"), null);
+    });
+
+    test("file marks are moved only by changes to their document", () => {
+        const tracker = new PositionTracker();
+        const marks = new Marks(tracker);
+        marks.set("one", "A", new Position(2, 0));
+        marks.set("one", "B", new Position(4, 0));
+        tracker.documentChanged("two", [change(0, 0, 1, 0, "")]);
+        assert.deepEqual(marks.get("one", "A").position, new Position(2, 0));
+        tracker.documentChanged("one", [change(0, 0, 1, 0, ""), change(3, 0, 4, 0, "")]);
+        assert.deepEqual(marks.get("one", "A").position, new Position(1, 0));
+        assert.equal(marks.get("one", "B"), null);
+    });
+
+    test("jumping to a file mark shows its document", async () => {
+        const host = new MemoryHost("one\ntwo");
+        const vim = new Vim(host);
+        const first = host.activeTextEditor;
+        for (const key of ["j", "m", "a", "m", "A"]) {
+            await vim.key(key);
+        }
+        host.open("three");
+        await vim.key("'");
+        await vim.key("a");
+        assert.equal(host.activeTextEditor.document.getText(), "three");
+        await vim.key("'");
+        await vim.key("A");
+        assert.equal(host.activeTextEditor, first);
+        assert.equal(host.activeTextEditor.selection.active.line, 1);
+    });
+});
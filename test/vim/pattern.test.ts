@@ -0,0 +1,169 @@
+import * as assert from "assert";
+import { compilePattern, escapePattern, translatePattern } from "../../src/vim/pattern";
+
+// Every match of a Vim pattern in text, as the matched strings.
+function matches(pattern: string, text: string): string[] {
+    const regex = compilePattern(pattern);
+    const result: string[] = [];
+    let match: RegExpExecArray;
+    /* tslint:disable */
+    while (match = regex.exec(text)) {
+        result.push(match[0]);
+        if (match[0].length === 0)
+            regex.lastIndex++;
+    }
+    /* tslint:enable */
+    return result;
+}
+
+function error(pattern: string): string {
+    try {
+        compilePattern(pattern);
+    } catch (e) {
+        return e.message;
+    }
+    return null;
+}
+
+suite("Pattern", () => {
+    test("magic characters", () => {
+        assert.deepEqual(matches("a.c", "abc a-c ac"), ["abc", "a-c"]);
+        assert.deepEqual(matches("ab*", "a ab abbb"), ["a", "ab", "abbb"]);
+        assert.deepEqual(matches("a\\.c", "abc a.c"), ["a.c"]);
+        assert.deepEqual(matches("[ab]x", "ax bx cx"), ["ax", "bx"]);
+        assert.deepEqual(matches("[a", "[a"), ["[a"]);
+    });
+
+    test("characters that need a backslash in magic mode", () => {
+        assert.deepEqual(matches("a+", "a+ aa"), ["a+"]);
+        assert.deepEqual(matches("a\\+", "a+ aa"), ["a", "aa"]);
+        assert.deepEqual(matches("ab\\=c", "ac abc"), ["ac", "abc"]);
+        assert.deepEqual(matches("ab\\?c", "ac abc"), ["ac", "abc"]);
+        assert.deepEqual(matches("\\(ab\\)\\+", "ababx"), ["abab"]);
+        assert.deepEqual(matches("(a|b)", "(a|b) a"), ["(a|b)"]);
+        assert.deepEqual(matches("foo\\|bar", "foo bar baz"), ["foo", "bar"]);
+        assert.deepEqual(matches("a{2}", "a{2} aa"), ["a{2}"]);
+    });
+
+    test("very magic", () => {
+        assert.deepEqual(matches("\\v(ab)+", "ababx"), ["abab"]);
+        assert.deepEqual(matches("\\va{2,3}", "a aa aaaa"), ["aa", "aaa"]);
+        assert.deepEqual(matches("\\vfoo|bar", "foo bar"), ["foo", "bar"]);
+        assert.deepEqual(matches("\\v\\(a\\)", "(a) a"), ["(a)"]);
+        assert.deepEqual(matches("\\v<is>", "is this is"), ["is", "is"]);
+    });
+
+    test("very nomagic", () => {
+        assert.deepEqual(matches("\\Va.c", "abc a.c"), ["a.c"]);
+        assert.deepEqual(matches("\\Va*", "aa a*"), ["a*"]);
+        assert.deepEqual(matches("\\Va\\.c", "abc a.c"), ["abc", "a.c"]);
+        assert.deepEqual(matches("\\V^a", "aa\na"), ["a", "a"]);
+        assert.deepEqual(matches("\\Va$", "a$ a"), ["a$"]);
+    });
+
+    test("nomagic", () => {
+        assert.deepEqual(matches("\\Ma.", "ab a."), ["a."]);
+        assert.deepEqual(matches("\\Ma\\.", "ab a."), ["ab", "a."]);
+    });
+
+    test("start and end of line", () => {
+        assert.deepEqual(matches("^a", "aa\nba\na"), ["a", "a"]);
+        assert.deepEqual(matches("a$", "aa\nab\na"), ["a", "a"]);
+        assert.deepEqual(matches("a^b", "a^b ab"), ["a^b"]);
+        assert.deepEqual(matches("a$b", "a$b ab"), ["a$b"]);
+        assert.deepEqual(matches("\\(^a\\|b$\\)", "ab\nbb"), ["a", "b", "b"]);
+    });
+
+    test("word boundaries follow the word characters of motions", () => {
+        assert.deepEqual(matches("\\<foo\\>", "foo foobar foo_ foo."), ["foo", "foo"]);
+        assert.deepEqual(matches("\\<bar", "foobar bar"), ["bar"]);
+        assert.deepEqual(matches("foo\\>", "foobar foo"), ["foo"]);
+    });
+
+    test("repetition", () => {
+        assert.deepEqual(matches("a\\{2}", "a aa aaa"), ["aa", "aa"]);
+        assert.deepEqual(matches("a\\{2,}", "a aa aaa"), ["aa", "aaa"]);
+        assert.deepEqual(matches("a\\{,2}b", "b ab aab"), ["b", "ab", "aab"]);
+        assert.deepEqual(matches("a\\{}", "aaa"), ["aaa", ""]);
+        assert.deepEqual(matches("a\\{-1,}", "aaa"), ["a", "a", "a"]);
+        assert.deepEqual(matches("a\\{2,3\\}", "aaaa"), ["aaa"]);
+    });
+
+    test("\\zs and \\ze set the start and end of the match", () => {
+        assert.deepEqual(matches("foo\\zsbar", "foobar bar"), ["bar"]);
+        assert.deepEqual(matches("foo\\zebar", "foobar foo"), ["foo"]);
+        assert.deepEqual(matches("a\\zsb\\zec", "abc ab bc"), ["b"]);
+        assert.deepEqual(matches("foo\\zs", "foofoo"), ["", ""]);
+        assert.deepEqual(matches("\\(a\\)\\zs\\1", "aa ab"), ["a"]);
+        assert.equal(compilePattern("x\\(a\\)\\zsb").exec("xab")[1], "a");
+    });
+
+    test("the translation has no lookbehind, which older versions of VS Code do not have", () => {
+        assert.equal(translatePattern("\\<foo\\>").source.indexOf("(?<"), -1);
+        assert.equal(translatePattern("foo\\zsbar").source.indexOf("(?<"), -1);
+    });
+
+    test("\\c and \\C", () => {
+        assert.deepEqual(matches("\\cfoo", "Foo FOO foo"), ["Foo", "FOO", "foo"]);
+        assert.deepEqual(matches("foo\\c", "Foo"), ["Foo"]);
+        assert.deepEqual(matches("\\Cfoo", "Foo foo"), ["foo"]);
+        assert.equal(translatePattern("\\cfoo").ignoreCase, true);
+        assert.equal(translatePattern("foo").ignoreCase, false);
+    });
+
+    test("character classes", () => {
+        assert.deepEqual(matches("\\s", "a b\tc\nd"), [" ", "\t"]);
+        assert.deepEqual(matches("\\S\\+", "ab cd"), ["ab", "cd"]);
+        assert.deepEqual(matches("\\d\\+", "a12b3"), ["12", "3"]);
+        assert.deepEqual(matches("\\w\\+", "foo_1 bar"), ["foo_1", "bar"]);
+        assert.deepEqual(matches("\\a\\+", "ab1cd"), ["ab", "cd"]);
+        assert.deepEqual(matches("\\u\\+", "abCDe"), ["CD"]);
+        assert.deepEqual(matches("\\l\\+", "abCDe"), ["ab", "e"]);
+        assert.deepEqual(matches("a\\_sb", "a\nb a b"), ["a\nb", "a b"]);
+        assert.deepEqual(matches("a\\_.b", "a\nb"), ["a\nb"]);
+    });
+
+    test("collections", () => {
+        assert.deepEqual(matches("[^a]", "ab\n"), ["b"]);
+        assert.deepEqual(matches("[]a]\\+", "]a]b"), ["]a]"]);
+        assert.deepEqual(matches("[[:digit:]x]\\+", "a1x2"), ["1x2"]);
+        assert.deepEqual(matches("[\\t]", "a\tb"), ["\t"]);
+        assert.deepEqual(matches("[\\s]", "s\\ "), ["s", "\\"]);
+        assert.deepEqual(matches("\\_[ab]\\+", "a\nb"), ["a\nb"]);
+    });
+
+    test("groups, back references and look-around", () => {
+        assert.deepEqual(matches("\\(a\\)\\1", "aa ab"), ["aa"]);
+        assert.deepEqual(matches("\\%(ab\\)\\{2}", "abab"), ["abab"]);
+        assert.deepEqual(matches("foo\\(bar\\)\\@=", "foobar foobaz"), ["foo"]);
+        assert.deepEqual(matches("foo\\(bar\\)\\@!", "foobar foobaz"), ["foo"]);
+        assert.deepEqual(matches("\\(foo\\)\\@<=bar", "foobar bar"), ["bar"]);
+    });
+
+    test("special characters", () => {
+        assert.deepEqual(matches("a\\tb", "a\tb"), ["a\tb"]);
+        assert.deepEqual(matches("a\\nb", "a\nb"), ["a\nb"]);
+        assert.deepEqual(matches("\\%d65\\%x42", "AB"), ["AB"]);
+        assert.deepEqual(matches("a\\/b", "a/b"), ["a/b"]);
+        assert.deepEqual(matches("a\\\\b", "a\\b"), ["a\\b"]);
+    });
+
+    test("errors", () => {
+        assert.equal(error("\\(a"), "E54: Unmatched \\(");
+        assert.equal(error("\\%(a"), "E53: Unmatched \\%(");
+        assert.equal(error("a\\)"), "E55: Unmatched \\)");
+        assert.equal(error("a\\{x}"), "E554: Syntax error in \\{...}");
+        assert.equal(error("\\+"), "E64: \\+ follows nothing");
+        assert.equal(error("a\\"), "E10: \\ should be followed by /, ? or &");
+        assert.equal(error("a~"), "~ (the last substitute string) is not supported in patterns");
+        assert.equal(error("\\%V"), "\\%V is not supported in patterns");
+        assert.equal(error("\\f"), "\\f is not supported in patterns");
+        assert.equal(error("[[:graph:]]"), "[:graph:] is not supported in patterns");
+        assert.equal(error("\\(a\\zsb\\)"), "\\zs is not supported inside a group");
+    });
+
+    test("escapePattern matches text literally", () => {
+        const text = "a.b*c[d]$^~/\\";
+        assert.deepEqual(matches(escapePattern(text), text), [text]);
+    });
+});
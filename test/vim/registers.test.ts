@@ -0,0 +1,59 @@
+import * as assert from "assert";
+import { MemoryHost } from "../../src/vim/memory";
+import { Registers, displayText } from "../../src/vim/registers";
+
+suite("Registers", () => {
+    test("deletes shift the numbered registers up to \"9", async () => {
+        const registers = new Registers(new MemoryHost(""), () => null);
+        for (let i = 1; i <= 10; i++) {
+            await registers.delete('"', { linewise: true, text: `${i}\n` }, false);
+        }
+        assert.equal(registers.get("1").text, "10\n");
+        assert.equal(registers.get("9").text, "2\n");
+        assert.equal(registers.get('"').text, "10\n");
+    });
+
+    test("the clipboard is read as it is now", async () => {
+        const host = new MemoryHost("");
+        const registers = new Registers(host, () => null);
+        await registers.yank("+", { linewise: true, text: "a\n" });
+        assert.equal(host.clipboard, "a\n");
+        assert.deepEqual(await registers.read("*"), { linewise: true, text: "a\n" });
+        host.clipboard = "copied elsewhere";
+        assert.deepEqual(await registers.read("+"), { linewise: false, text: "copied elsewhere" });
+        host.clipboard = "";
+        assert.equal(await registers.read("+"), null);
+    });
+
+    test("uppercase names append", async () => {
+        const registers = new Registers(new MemoryHost(""), () => null);
+        await registers.write("A", { linewise: false, text: "a" });
+        await registers.write("A", { linewise: false, text: "b" });
+        assert.deepEqual(registers.get("a"), { linewise: false, text: "ab" });
+        await registers.write("A", { linewise: true, text: "c\n" });
+        assert.deepEqual(registers.get("a"), { linewise: true, text: "ab\nc\n" });
+    });
+
+    test("read-only and unknown registers are not written", async () => {
+        const registers = new Registers(new MemoryHost(""), name => name === "." ? "typed" : null);
+        assert.equal(await registers.write(".", { linewise: false, text: "x" }), false);
+        assert.equal(await registers.write("_", { linewise: false, text: "x" }), false);
+        assert.equal(await registers.write("!", { linewise: false, text: "x" }), false);
+        assert.equal(registers.get(".").text, "typed");
+        assert.equal(registers.get('"'), null);
+    });
+
+    test("restore puts back what the registers held", async () => {
+        const registers = new Registers(new MemoryHost(""), () => null);
+        await registers.yank('"', { linewise: false, text: "a" });
+        const state = registers.save();
+        await registers.delete('"', { linewise: true, text: "b\n" }, false);
+        registers.restore(state);
+        assert.equal(registers.get('"').text, "a");
+        assert.equal(registers.get("1"), null);
+    });
+
+    test("displayText shows control characters", () => {
+        assert.equal(displayText("a\nb\tc\u001b"), "a^Jb^Ic^[");
+    });
+});
@@ -0,0 +1,53 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as path from "path";
+import { parseSpec, runSpec } from "./spec";
+
+suite("Spec runner", () => {
+    test("parseSpec reads buffers and expectations", () => {
+        const [spec] = parseSpec([
+            "Test: example",
+            "Given:",
+            "> a|b",
+            ">",
+            "Keys: x",
+            "Expect:",
+            "> a|",
+            "Register a: \"b\\n\" linewise",
+        ].join("\n"), "example.vimspec");
+        assert.equal(spec.name, "example");
+        assert.equal(spec.given, "a|b\n");
+        assert.deepEqual(spec.keys, ["x"]);
+        assert.equal(spec.expect, "a|");
+        assert.deepEqual(spec.registers, { a: { text: "b\n", linewise: true, blockwise: false } });
+    });
+
+    test("runSpec reports differences", async () => {
+        const [spec] = parseSpec("Test: wrong\nGiven:\n> |foo\nKeys: x\nExpect:\n> |foo\nMode: insert", "wrong.vimspec");
+        const diffs = await runSpec(spec);
+        assert.equal(diffs.length, 2);
+        assert.ok(/^buffer differs/.test(diffs[0]));
+        assert.ok(/^mode differs/.test(diffs[1]));
+    });
+});
+
+// The spec files are not compiled, so read them from the source tree.
+const specDirectory = path.join(__dirname, "..", "..", "..", "test", "vim", "specs");
+
+for (const file of fs.readdirSync(specDirectory).filter(f => /\.vimspec$/.test(f)).sort()) {
+    const cases = parseSpec(fs.readFileSync(path.join(specDirectory, file), "utf8"), file);
+
+    suite(`Spec ${file}`, () => {
+        for (const spec of cases) {
+            if (spec.pending) {
+                test.skip(`${spec.name} (${spec.pending})`, () => null);
+                continue;
+            }
+
+            test(spec.name, async () => {
+                const diffs = await runSpec(spec);
+                assert.ok(diffs.length === 0, `${spec.file}:${spec.line}: ${spec.name}\n${diffs.join("\n")}`);
+            });
+        }
+    });
+}
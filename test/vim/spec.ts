@@ -0,0 +1,289 @@
+import { VimMode } from "../../src/vim/common";
+import { Range, Selection, StatusItem } from "../../src/vim/editor";
+import { parseKeys } from "../../src/vim/keys";
+import { KeyBinding } from "../../src/vim/mappings";
+import { MemoryHost } from "../../src/vim/memory";
+import { Vim } from "../../src/vim/vim";
+
+// Runs keystroke specs against the engine with an in-memory editor.
+//
+// A spec file is a list of cases:
+//
+//     # Comments start with '#'
+//     Test: dw deletes to the start of the next word
+//     Given:
+//     > foo |bar baz
+//     Keys: dw
+//     Expect:
+//     > foo |baz
+//     Mode: normal
+//     Register ": "bar "
+//
+// Buffer lines start with '>' (a lone '>' is an empty line) and '|' marks a cursor, several of them put a cursor at
+// each. Keys are typed as in Vim, with <esc>, <cr>, <tab>, <bs>, <left>, <right>, <up>, <down>, <lt>, <c-v>, <c-r>,
+// <c-o> and <c-i> for special keys (see src/vim/keys.ts).
+// Everything after Keys is optional: 'Mode' is a VimMode name ("normal", "visual", "operator pending"),
+// 'Register {name}: {JSON string}' may be followed by 'linewise' or 'blockwise', 'Selections' lists every selection as
+// 'anchorLine:anchorCol-activeLine:activeCol' separated by commas, 'Highlights' lists every decorated range the same
+// way, 'Status' is the text of the mode status item, 'Message' the text of the message status item, 'Commands'
+// lists the editor commands the keys ran, separated by commas, and an 'Output' block has the lines last shown as the
+// output of a command like :registers.
+// 'Map {mode}: {keys} {keys they stand for}' maps keys before the case runs, in the mode "normal", "insert", "visual"
+// or "operatorPending", and 'Noremap {mode}:' does the same without mapping the keys they stand for again.
+// 'Pending: {reason}' marks a case that documents behavior the engine does not have yet.
+
+export interface RegisterExpectation {
+    text: string;
+    linewise: boolean;
+    blockwise: boolean;
+}
+
+export interface SpecCase {
+    name: string;
+    file: string;
+    line: number;
+    given: string;
+    keys: string[];
+    expect: string;
+    mode: string;
+    registers: { [register: string]: RegisterExpectation };
+    selections: string;
+    highlights: string;
+    status: string;
+    message: string;
+    commands: string;
+    output: string;
+    // The mappings of each mode
+    mappings: { [mode: string]: KeyBinding[] };
+    pending: string;
+}
+
+export function parseSpec(text: string, file: string): SpecCase[] {
+    const cases: SpecCase[] = [];
+    // The Given, Expect and Output lines of each case
+    const buffers: { given: string[], expect: string[], output: string[] }[] = [];
+    let current: SpecCase = null;
+    let block: string[] = null;
+
+    const fail = (line: number, message: string) => {
+        throw new Error(`${file}:${line + 1}: ${message}`);
+    };
+
+    const lines = text.split(/\r?\n/);
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+        if (line.length === 0 || line[0] === "#")
+            continue;
+
+        if (line[0] === ">") {
+            if (!block)
+                fail(i, "buffer line outside of a Given, Expect or Output block");
+            block.push(line.replace(/^> ?/, ""));
+            continue;
+        }
+        block = null;
+
+        const match = /^(\w+)(?: ([^:]+))?:(?: (.*))?$/.exec(line);
+        if (!match)
+            fail(i, `unrecognized line '${line}'`);
+        const [, directive, argument, value] = match;
+        if (directive === "Test") {
+            current = {
+                name: value, file, line: i + 1, given: null, keys: [], expect: null,
+                mode: null, registers: {}, selections: null, highlights: null, status: null, message: null,
+                commands: null, output: null, mappings: {}, pending: null,
+            };
+            cases.push(current);
+            buffers.push({ given: null, expect: null, output: null });
+            continue;
+        }
+        if (!current)
+            fail(i, `${directive} before the first Test`);
+
+        switch (directive) {
+            case "Given":
+                block = buffers[buffers.length - 1].given = [];
+                break;
+            case "Expect":
+                block = buffers[buffers.length - 1].expect = [];
+                break;
+            case "Output":
+                block = buffers[buffers.length - 1].output = [];
+                break;
+            case "Keys":
+                current.keys = parseKeys(value || "");
+                break;
+            case "Mode":
+                current.mode = value;
+                break;
+            case "Register":
+                const registerMatch = /^(".*")(?: (linewise|blockwise))?$/.exec(value || "");
+                if (!argument || !registerMatch)
+                    fail(i, "expected 'Register {name}: {JSON string} [linewise|blockwise]'");
+                current.registers[argument] = {
+                    text: JSON.parse(registerMatch[1]),
+                    linewise: registerMatch[2] === "linewise",
+                    blockwise: registerMatch[2] === "blockwise",
+                };
+                break;
+            case "Selections":
+                current.selections = value;
+                break;
+            case "Highlights":
+                current.highlights = value || "";
+                break;
+            case "Status":
+                current.status = value || "";
+                break;
+            case "Message":
+                current.message = value || "";
+                break;
+            case "Commands":
+                current.commands = value || "";
+                break;
+            case "Map":
+            case "Noremap":
+                const mappingMatch = /^(\S+) (.+)$/.exec(value || "");
+                if (["normal", "insert", "visual", "operatorPending"].indexOf(argument) === -1 || !mappingMatch)
+                    fail(i, `expected '${directive} {mode}: {keys} {keys they stand for}'`);
+                current.mappings[argument] = (current.mappings[argument] || []).concat({
+                    before: mappingMatch[1], after: mappingMatch[2], noremap: directive === "Noremap",
+                });
+                break;
+            case "Pending":
+                current.pending = value || "pending";
+                break;
+            default:
+                fail(i, `unknown directive '${directive}'`);
+        }
+    }
+
+    cases.forEach((c, i) => {
+        if (!buffers[i].given)
+            fail(c.line - 1, "missing Given block");
+        c.given = buffers[i].given.join("\n");
+        c.expect = buffers[i].expect ? buffers[i].expect.join("\n") : null;
+        c.output = buffers[i].output ? buffers[i].output.join("\n") : null;
+    });
+    return cases;
+}
+
+function splitCursors(buffer: string): { text: string, cursors: number[] } {
+    const cursors: number[] = [];
+    let text = "";
+    for (const c of buffer) {
+        if (c === "|")
+            cursors.push(text.length);
+        else
+            text += c;
+    }
+    return { text, cursors: cursors.length ? cursors : [0] };
+}
+
+function normalizeMode(mode: string): string {
+    return mode.replace(/\s/g, "").toLowerCase();
+}
+
+function formatSelection(s: Selection): string {
+    return `${s.anchor.line}:${s.anchor.character}-${s.active.line}:${s.active.character}`;
+}
+
+function indent(text: string): string {
+    return text.split("\n").map(l => "    > " + l).join("\n");
+}
+
+// Runs a spec and returns a description of every way the result differed from the expectation.
+export async function runSpec(spec: SpecCase): Promise<string[]> {
+    const given = splitCursors(spec.given);
+    const host = new MemoryHost(given.text);
+    const vim = new Vim(host);
+    vim.configure({
+        normalModeKeyBindings: spec.mappings["normal"],
+        insertModeKeyBindings: spec.mappings["insert"],
+        visualModeKeyBindings: spec.mappings["visual"],
+        operatorPendingKeyBindings: spec.mappings["operatorPending"],
+    });
+    const editor = host.activeTextEditor;
+    editor.selections = given.cursors.map(c => {
+        const position = editor.document.positionAt(c);
+        return new Selection(position, position);
+    });
+
+    // Let the editor report its changes before each key, as it would between keystrokes
+    const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+    await settle();
+    for (const key of spec.keys) {
+        await vim.key(key);
+        await settle();
+    }
+
+    const diffs: string[] = [];
+    const document = editor.document;
+    if (spec.expect != null) {
+        let actual = document.getText();
+        const offsets = editor.selections.map(s => document.offsetAt(s.active)).sort((a, b) => b - a);
+        for (const offset of offsets) {
+            actual = actual.substring(0, offset) + "|" + actual.substring(offset);
+        }
+        if (actual !== spec.expect)
+            diffs.push(`buffer differs\n  expected:\n${indent(spec.expect)}\n  actual:\n${indent(actual)}`);
+    }
+
+    if (spec.mode != null && normalizeMode(VimMode[vim.mode]) !== normalizeMode(spec.mode))
+        diffs.push(`mode differs: expected ${spec.mode}, actual ${VimMode[vim.mode]}`);
+
+    for (const name of Object.keys(spec.registers)) {
+        const expected = spec.registers[name];
+        const actual = vim.getRegister(name);
+        if (!actual) {
+            diffs.push(`register ${name} is empty, expected ${JSON.stringify(expected.text)}`);
+        } else if (actual.text !== expected.text || actual.linewise !== expected.linewise || !!actual.blockwise !== expected.blockwise) {
+            const describe = (r: { text: string, linewise: boolean, blockwise?: boolean }) =>
+                JSON.stringify(r.text) + (r.linewise ? " linewise" : "") + (r.blockwise ? " blockwise" : "");
+            diffs.push(`register ${name} differs: expected ${describe(expected)}, actual ${describe(actual)}`);
+        }
+    }
+
+    if (spec.selections != null) {
+        const actual = editor.selections.map(formatSelection).join(", ");
+        if (actual !== spec.selections)
+            diffs.push(`selections differ: expected ${spec.selections}, actual ${actual}`);
+    }
+
+    if (spec.highlights != null) {
+        const ranges: Range[] = [];
+        for (const key of Object.keys(editor.decorations)) {
+            ranges.push(...editor.decorations[key]);
+        }
+        ranges.sort((a, b) => a.start.compareTo(b.start));
+        const actual = ranges.map(r => formatSelection(new Selection(r.start, r.end))).join(", ");
+        if (actual !== spec.highlights)
+            diffs.push(`highlights differ: expected ${spec.highlights}, actual ${actual}`);
+    }
+
+    if (spec.status != null) {
+        const actual = host.statusText[StatusItem.Mode] || "";
+        if (actual !== spec.status)
+            diffs.push(`status differs: expected '${spec.status}', actual '${actual}'`);
+    }
+
+    if (spec.message != null) {
+        const actual = host.statusText[StatusItem.Message] || "";
+        if (actual !== spec.message)
+            diffs.push(`message differs: expected '${spec.message}', actual '${actual}'`);
+    }
+
+    if (spec.commands != null) {
+        const actual = host.executedCommands.join(", ");
+        if (actual !== spec.commands)
+            diffs.push(`commands differ: expected '${spec.commands}', actual '${actual}'`);
+    }
+
+    if (spec.output != null) {
+        const actual = (host.output || []).join("\n");
+        if (actual !== spec.output)
+            diffs.push(`output differs\n  expected:\n${indent(spec.output)}\n  actual:\n${indent(actual)}`);
+    }
+
+    return diffs;
+}
@@ -0,0 +1,54 @@
+import * as assert from "assert";
+import { compilePattern } from "../../src/vim/pattern";
+import { expandReplacement, expandTilde, findSubstitutions, parseRepeat, parseSubstitute } from "../../src/vim/substitute";
+
+function replace(text: string, pattern: string, replacement: string, global: boolean): string {
+    const substitutions = findSubstitutions(text, compilePattern(pattern), replacement, 0, text.length, global);
+    for (const s of substitutions.reverse()) {
+        text = text.substring(0, s.start) + s.text + text.substring(s.end);
+    }
+    return text;
+}
+
+suite("Substitute", () => {
+    test("parseSubstitute", () => {
+        assert.deepEqual(parseSubstitute("/a/b/"), { pattern: "a", replacement: "b", flags: "", count: null });
+        assert.deepEqual(parseSubstitute("/a/b/gc 3"), { pattern: "a", replacement: "b", flags: "gc", count: 3 });
+        assert.deepEqual(parseSubstitute("#a/b#\\#c"), { pattern: "a/b", replacement: "#c", flags: "", count: null });
+        assert.deepEqual(parseSubstitute("/a\\/b/\\1"), { pattern: "a/b", replacement: "\\1", flags: "", count: null });
+        assert.deepEqual(parseSubstitute("/a"), { pattern: "a", replacement: "", flags: "", count: null });
+        assert.deepEqual(parseSubstitute(""), { pattern: null, replacement: null, flags: "", count: null });
+        assert.deepEqual(parseSubstitute(" g 2"), { pattern: null, replacement: null, flags: "g", count: 2 });
+        assert.deepEqual(parseRepeat("&g"), { pattern: null, replacement: null, flags: "&g", count: null });
+        assert.throws(() => parseSubstitute("/a/b/x"), /E488: Trailing characters: x/);
+    });
+
+    test("expandTilde", () => {
+        assert.equal(expandTilde("a~b", "x"), "axb");
+        assert.equal(expandTilde("a\\~b", "x"), "a\\~b");
+    });
+
+    test("expandReplacement", () => {
+        const match = ["foo bar", "foo", "bar"];
+        assert.equal(expandReplacement("[&]", match), "[foo bar]");
+        assert.equal(expandReplacement("\\0|\\2|\\1|\\3", match), "foo bar|bar|foo|");
+        assert.equal(expandReplacement("\\&\\\\", match), "&\\");
+        assert.equal(expandReplacement("\\u\\1 \\U\\2\\E!", match), "Foo BAR!");
+        assert.equal(expandReplacement("\\L\\uFOO", match), "Foo");
+        assert.equal(expandReplacement("a\\rb\\tc", match), "a\nb\tc");
+    });
+
+    test("findSubstitutions", () => {
+        assert.equal(replace("a a\na a", "a", "b", false), "b a\nb a");
+        assert.equal(replace("a a\na a", "a", "b", true), "b b\nb b");
+        assert.equal(replace("xab", "x*", "-", true), "-a-b-");
+        assert.equal(replace("ab\ncd", "b\\nc", "", false), "ad");
+        assert.equal(replace("a\nb", "$", ";", true), "a;\nb;");
+    });
+
+    test("findSubstitutions stays between start and end", () => {
+        const text = "a\na\na";
+        const substitutions = findSubstitutions(text, compilePattern("a"), "b", 2, 3, false);
+        assert.deepEqual(substitutions, [{ start: 2, end: 3, text: "b" }]);
+    });
+});
@@ -0,0 +1,182 @@
+import * as assert from "assert";
+import { Position, Range } from "../../src/vim/editor";
+import { PositionTracker, adjustPosition } from "../../src/vim/tracker";
+
+function change(startLine: number, startCharacter: number, endLine: number, endCharacter: number, text: string, rangeLength?: number) {
+    return { range: new Range(startLine, startCharacter, endLine, endCharacter), rangeLength: rangeLength || 0, text };
+}
+
+function adjust(line: number, character: number, startLine: number, startCharacter: number, endLine: number,
+                endCharacter: number, text: string, rangeLength?: number): number[] {
+    const c = change(startLine, startCharacter, endLine, endCharacter, text, rangeLength);
+    const position = adjustPosition(new Position(line, character), c);
+    return position ? [position.line, position.character] : null;
+}
+
+// The edits are replacements of the text between two offsets, all of them made at once.
+interface Edit {
+    start: number;
+    end: number;
+    text: string;
+}
+
+function positionAt(text: string, offset: number): Position {
+    const lines = text.substring(0, offset).split("\n");
+    return new Position(lines.length - 1, lines[lines.length - 1].length);
+}
+
+function offsetAt(text: string, position: Position): number {
+    const lines = text.split("\n");
+    let offset = 0;
+    for (let i = 0; i < position.line; i++) {
+        offset += lines[i].length + 1;
+    }
+    return offset + position.character;
+}
+
+// What the tracker should do, worked out on offsets into the text instead of positions. The edits do not overlap and
+// are in the order of the text.
+function reference(text: string, edits: Edit[], offset: number, keep: boolean): number {
+    let moved = offset;
+    for (const edit of edits) {
+        if (edit.start <= offset && offset < edit.end) {
+            // In removed text: its line goes with the change when the change has all of it and its line break
+            const lineStart = text.lastIndexOf("\n", offset - 1) + 1;
+            const lineEnd = text.indexOf("\n", offset);
+            const lineRemoved = edit.start <= lineStart && lineEnd !== -1 && lineEnd < edit.end;
+            if (lineRemoved && !keep)
+                return null;
+            const inChange = lineRemoved ? 0 : offset - edit.start;
+            return moved - offset + edit.start + Math.min(inChange, edit.text.length);
+        }
+        if (edit.end <= offset)
+            moved += edit.text.length - (edit.end - edit.start);
+    }
+    return moved;
+}
+
+function apply(text: string, edits: Edit[]): string {
+    let result = text;
+    for (const edit of edits.slice().reverse()) {
+        result = result.substring(0, edit.start) + edit.text + result.substring(edit.end);
+    }
+    return result;
+}
+
+// A small random generator that gives the same numbers every run, so that a failure can be run again
+class Random {
+    private seed: number;
+
+    public constructor(seed: number) {
+        this.seed = seed;
+    }
+
+    // A whole number from 0 up to but not including n
+    public next(n: number): number {
+        this.seed = this.seed * 16807 % 2147483647;
+        return this.seed % n;
+    }
+
+    public text(length: number): string {
+        let text = "";
+        for (let i = 0; i < length; i++) {
+            text += "ab\n"[this.next(3)];
+        }
+        return text;
+    }
+
+    // Up to three edits that do not overlap, of which no two insert text at the same place
+    public edits(text: string): Edit[] {
+        const offsets: number[] = [];
+        for (let i = 0, count = 2 * (1 + this.next(3)); i < count; i++) {
+            offsets.push(this.next(text.length + 1));
+        }
+        offsets.sort((a, b) => a - b);
+        const edits: Edit[] = [];
+        for (let i = 0; i < offsets.length; i += 2) {
+            const edit = { start: offsets[i], end: offsets[i + 1], text: this.text(this.next(4)) };
+            const previous = edits[edits.length - 1];
+            if (previous && previous.start === previous.end && edit.start === edit.end && previous.start === edit.start)
+                continue;
+            edits.push(edit);
+        }
+        return edits;
+    }
+}
+
+suite("Tracker", () => {
+    test("positions before a change stay", () => {
+        assert.deepEqual(adjust(1, 2, 2, 0, 3, 0, ""), [1, 2]);
+        assert.deepEqual(adjust(1, 2, 1, 3, 1, 4, "xy\nz"), [1, 2]);
+    });
+
+    test("positions after a change move with the text", () => {
+        assert.deepEqual(adjust(4, 1, 2, 0, 3, 0, ""), [3, 1]);
+        assert.deepEqual(adjust(4, 1, 2, 0, 2, 0, "a\nb\n"), [6, 1]);
+        assert.deepEqual(adjust(1, 5, 1, 1, 1, 3, "x"), [1, 4]);
+        assert.deepEqual(adjust(1, 5, 1, 1, 1, 3, "x\nyz"), [2, 4]);
+        assert.deepEqual(adjust(3, 0, 2, 0, 3, 0, ""), [2, 0]);
+        assert.deepEqual(adjust(1, 2, 1, 2, 1, 2, "ab"), [1, 4]);
+    });
+
+    test("positions on deleted lines are deleted, or go to the start of the change when kept", () => {
+        assert.equal(adjust(2, 3, 2, 0, 3, 0, ""), null);
+        assert.equal(adjust(3, 0, 2, 4, 5, 0, ""), null);
+        assert.deepEqual(adjustPosition(new Position(3, 0), change(2, 4, 5, 0, ""), true), new Position(2, 4));
+    });
+
+    test("positions in replaced text on lines that stay keep their place in the new text", () => {
+        assert.deepEqual(adjust(2, 3, 2, 1, 2, 5, "x"), [2, 2]);
+        assert.deepEqual(adjust(2, 3, 2, 1, 2, 5, "wxyz"), [2, 3]);
+        assert.deepEqual(adjust(2, 3, 2, 1, 3, 0, ""), [2, 1]);
+        assert.deepEqual(adjust(3, 1, 2, 4, 3, 2, "a\nbcd", 4), [3, 1]);
+        assert.deepEqual(adjust(3, 1, 2, 4, 3, 2, "ab", 4), [2, 6]);
+    });
+
+    test("the tracker follows positions until they are untracked, and puts back what was saved", () => {
+        const tracker = new PositionTracker();
+        const a = tracker.track("one", new Position(1, 0));
+        const b = tracker.track("one", new Position(2, 0), true);
+        const other = tracker.track("two", new Position(1, 0));
+        const saved = tracker.save("one");
+        tracker.documentChanged("one", [change(1, 0, 3, 0, "")]);
+        assert.equal(a.position, null);
+        assert.deepEqual(b.position, new Position(1, 0));
+        assert.deepEqual(other.position, new Position(1, 0));
+        tracker.restore(saved);
+        assert.deepEqual(a.position, new Position(1, 0));
+        tracker.untrack(a);
+        tracker.documentChanged("one", [change(0, 0, 0, 0, "\n")]);
+        assert.deepEqual(a.position, new Position(1, 0));
+        assert.deepEqual(b.position, new Position(3, 0));
+    });
+
+    test("positions go where the reference puts them for random edits", () => {
+        const random = new Random(42);
+        for (let run = 0; run < 500; run++) {
+            let text = random.text(random.next(20));
+            const offsets: number[] = [];
+            for (let i = 0; i < 4; i++) {
+                offsets.push(random.next(text.length + 1));
+            }
+            const keep = offsets.map((_, i) => i % 2 === 0);
+            const tracker = new PositionTracker();
+            const tracked = offsets.map((offset, i) => tracker.track("doc", positionAt(text, offset), keep[i]));
+            let expected = offsets.slice();
+            // A few edits in a row, each with its changes reported as the editor does, the last in the text first
+            for (let edit = 0, count = 1 + random.next(3); edit < count; edit++) {
+                const edits = random.edits(text);
+                const changes = edits.slice().reverse().map(e =>
+                    ({ range: new Range(positionAt(text, e.start), positionAt(text, e.end)), rangeLength: e.end - e.start, text: e.text }));
+                expected = expected.map((offset, i) => offset === null ? null : reference(text, edits, offset, keep[i]));
+                const before = text;
+                text = apply(text, edits);
+                tracker.documentChanged("doc", changes);
+                tracked.forEach((t, i) => {
+                    const actual = t.position ? offsetAt(text, t.position) : null;
+                    assert.equal(actual, expected[i], `run ${run}: ${JSON.stringify(before)} ${JSON.stringify(edits)} position ${i}`);
+                });
+            }
+        }
+    });
+});
@@ -0,0 +1,55 @@
+import * as assert from "assert";
+import { UndoHistory } from "../../src/vim/undo";
+
+function apply(text: string, change: { start: number, end: number, text: string }): string {
+    return text.substring(0, change.start) + change.text + text.substring(change.end);
+}
+
+suite("Undo", () => {
+    test("undo and redo go back and forth between the recorded texts", () => {
+        const history = new UndoHistory("one two");
+        assert.equal(history.record("one two", 0, 0), false);
+        assert.equal(history.record("one 2", 4, 4), true);
+        assert.equal(history.record("1 2", 0, 4), true);
+
+        let text = "1 2";
+        text = apply(text, history.undo());
+        assert.equal(text, "one 2");
+        text = apply(text, history.undo());
+        assert.equal(text, "one two");
+        assert.equal(history.undo(), null);
+        text = apply(text, history.redo());
+        assert.equal(text, "one 2");
+        assert.equal(history.record("one 2!", 5, 4), true);
+        assert.equal(history.redo(), null);
+    });
+
+    test("a change starts where the edits did", () => {
+        const history = new UndoHistory("foo");
+        history.record("fo", 1, 1);
+        assert.deepEqual(history.undo(), { start: 1, end: 2, text: "oo", cursor: 1 });
+    });
+
+    test("the cursor goes back where it was when that line is put back", () => {
+        const history = new UndoHistory("one\ntwo\nthree");
+        history.record("one", 3, 6);
+        assert.equal(history.undo().cursor, 6);
+        history.record("one\nthree", 4, 0);
+        assert.equal(history.undo().cursor, 4);
+    });
+
+    test("undoLine puts back the last changed line", () => {
+        const history = new UndoHistory("abc\ndef");
+        history.record("bc\ndef", 0, 0);
+        history.record("c\ndef", 0, 0);
+        assert.deepEqual(history.undoLine(), { start: 0, end: 1, text: "abc" });
+        history.record("abc\ndef", 0, 0);
+        assert.deepEqual(history.undoLine(), { start: 0, end: 3, text: "c" });
+        history.record("c\ndef", 0, 0);
+        history.record("c\nef", 2, 2);
+        assert.deepEqual(history.undoLine(), { start: 2, end: 4, text: "def" });
+        history.record("c\ndef", 2, 2);
+        history.record("c", 1, 2);
+        assert.equal(history.undoLine(), null);
+    });
+});
@@ -1 +0,0 @@
-/// <reference path="../node_modules/vscode/typings/node.d.ts" />
\ No newline at end of file
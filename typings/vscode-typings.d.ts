@@ -1 +0,0 @@
-/// <reference path="../node_modules/vscode/typings/index.d.ts" />